@@ -0,0 +1,3 @@
+#!/usr/bin/env node
+// Entry point for the headless CLI. Build it first with `npm run build:cli`.
+import "../dist/node/cli/index.js";
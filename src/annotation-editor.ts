@@ -0,0 +1,716 @@
+// Ground-truth annotation mode: draw, move, resize and retype shapes on the
+// image, edit polygon vertices and circle radii, and save the result as
+// ground_truth.json, in the schema evaluation.ts loads. The labels are
+// drawn on their own canvas on top of the image (and of the detection
+// overlay, which is hidden meanwhile).
+//
+// Shapes are edited through the functions in annotation.ts, which keep
+// every entry's center, bounding box and area in line with its geometry.
+
+import {
+  convertShape,
+  editableShape,
+  fromDetection,
+  geometryKind,
+  outline,
+  polygonType,
+  scaleShape,
+  translateShape,
+  withDerivedFields,
+} from "./annotation.js";
+import type {
+  GroundTruthData,
+  GroundTruthShape,
+} from "./evaluation-utils.js";
+import { SHAPE_TYPES } from "./export.js";
+import { polygonArea } from "./geometry.js";
+import { TYPE_COLORS } from "./overlay.js";
+import type { DetectedShape, Point } from "./shape-detector.js";
+import { downloadFile, escapeHtml } from "./ui-utils.js";
+
+export type AnnotationTool =
+  | "select" // Select, move and resize shapes, drag their handles
+  | "circle" // Drag from the center out
+  | "ellipse" // Drag a box
+  | "rectangle" // Drag a box
+  | "polygon"; // Click the corners, double-click or Enter to finish
+
+const TOOLS: { tool: AnnotationTool; label: string }[] = [
+  { tool: "select", label: "Select" },
+  { tool: "circle", label: "Circle" },
+  { tool: "ellipse", label: "Ellipse" },
+  { tool: "rectangle", label: "Rectangle" },
+  { tool: "polygon", label: "Polygon" },
+];
+
+// Handle size and grab distance, in CSS pixels.
+const HANDLE_SIZE = 5;
+const GRAB_DISTANCE = 8;
+// Drawn shapes smaller than this (in image pixels) were just clicks.
+const MIN_DRAWN_SIZE = 3;
+
+// What dragging the mouse does, from the shape as it was when it started.
+type Drag =
+  | { kind: "move"; start: Point; original: GroundTruthShape }
+  | { kind: "vertex"; index: number; original: GroundTruthShape }
+  | { kind: "radius"; original: GroundTruthShape }
+  | { kind: "axis"; axis: "major" | "minor"; original: GroundTruthShape }
+  | { kind: "scale"; corner: Point; anchor: Point; original: GroundTruthShape }
+  | { kind: "draw"; start: Point; current: Point };
+
+interface Handle {
+  point: Point;
+  drag: Drag;
+}
+
+export class AnnotationEditor {
+  private canvas: HTMLCanvasElement;
+  private image: HTMLCanvasElement;
+  private ctx: CanvasRenderingContext2D;
+  private panel: HTMLDivElement;
+  // The detections of the image on the canvas, to start labeling from.
+  private getDetections: () => DetectedShape[] | null;
+  private data: GroundTruthData = { images: {} };
+  private imageName: string | null = null;
+  private imageSize = { width: 0, height: 0 };
+  private tool: AnnotationTool = "select";
+  private selected: number | null = null;
+  private drag: Drag | null = null;
+  private draft: Point[] = []; // Corners of the polygon being drawn
+  private active = false;
+  private loaded = false; // Whether the bundled ground truth is in
+
+  constructor(
+    canvas: HTMLCanvasElement,
+    image: HTMLCanvasElement,
+    panel: HTMLDivElement,
+    getDetections: () => DetectedShape[] | null
+  ) {
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("Could not get canvas context");
+    this.canvas = canvas;
+    this.image = image;
+    this.ctx = ctx;
+    this.panel = panel;
+    this.getDetections = getDetections;
+
+    canvas.addEventListener("pointerdown", (event) => this.onDown(event));
+    canvas.addEventListener("pointermove", (event) => this.onMove(event));
+    canvas.addEventListener("pointerup", () => this.onUp());
+    canvas.addEventListener("dblclick", () => this.finishPolygon());
+    document.addEventListener("keydown", (event) => this.onKey(event));
+    this.renderPanel();
+  }
+
+  // Turns annotation mode on or off. The first time, the bundled
+  // ground_truth.json is loaded to edit.
+  async setActive(active: boolean): Promise<void> {
+    this.active = active;
+    this.canvas.style.display = active ? "block" : "none";
+    if (active && !this.loaded) {
+      this.loaded = true;
+      try {
+        const { loadGroundTruth } = await import("./evaluation-dataset.js");
+        // A copy, so edits don't change what evaluations run against until
+        // the file is saved.
+        this.data = structuredClone(await loadGroundTruth());
+      } catch (error) {
+        console.error("Could not load ground_truth.json:", error);
+      }
+    }
+    this.draw();
+    this.renderPanel();
+  }
+
+  // The image now on the canvas. Its labels are the entry under 'name'.
+  setImage(name: string, width: number, height: number): void {
+    this.imageName = name;
+    this.imageSize = { width, height };
+    this.selected = null;
+    this.drag = null;
+    this.draft = [];
+    this.draw();
+    this.renderPanel();
+  }
+
+  // Another ground-truth file to edit, replacing the current one.
+  load(data: GroundTruthData): void {
+    if (!data || typeof data.images !== "object") {
+      throw new Error("Not a ground-truth file: it has no 'images'");
+    }
+    this.data = data;
+    this.loaded = true;
+    this.selected = null;
+    this.draw();
+    this.renderPanel();
+  }
+
+  save(): void {
+    downloadFile(
+      "ground_truth.json",
+      JSON.stringify(this.data, null, 2) + "\n",
+      "application/json"
+    );
+  }
+
+  // The current image's labels. Images get an entry only once they have
+  // been labeled: an entry with no shapes means "nothing to detect here".
+  private shapes(): GroundTruthShape[] {
+    if (!this.imageName) return [];
+    return this.data.images[this.imageName]?.shapes ?? [];
+  }
+
+  private editShapes(): GroundTruthShape[] {
+    if (!this.imageName) throw new Error("No image to annotate");
+    const entry = (this.data.images[this.imageName] ??= {
+      image_dimensions: { ...this.imageSize },
+      shapes: [],
+    });
+    return entry.shapes;
+  }
+
+  private seedFromDetections(): void {
+    const detections = this.getDetections();
+    if (!detections || !this.imageName) return;
+    const shapes = this.editShapes();
+    if (
+      shapes.length > 0 &&
+      !confirm(`Replace the ${shapes.length} labeled shapes with detections?`)
+    ) {
+      return;
+    }
+    shapes.splice(0, shapes.length, ...detections.map((s) => fromDetection(s)));
+    this.selected = null;
+    this.draw();
+    this.renderPanel();
+  }
+
+  private setTool(tool: AnnotationTool): void {
+    this.tool = tool;
+    this.draft = [];
+    this.canvas.style.cursor = tool === "select" ? "" : "crosshair";
+    this.draw();
+    this.renderPanel();
+  }
+
+  // --- Mouse and keyboard ---
+
+  private onDown(event: PointerEvent): void {
+    if (!this.imageName) return;
+    const p = this.toImage(event);
+    this.canvas.setPointerCapture(event.pointerId);
+
+    if (this.tool === "polygon") {
+      // Clicking the first corner again closes the polygon.
+      const first = this.draft[0];
+      if (this.draft.length >= 3 && this.near(first, p)) {
+        this.finishPolygon();
+      } else {
+        this.draft.push(p);
+        this.draw();
+      }
+      return;
+    }
+    if (this.tool !== "select") {
+      this.drag = { kind: "draw", start: p, current: p };
+      return;
+    }
+
+    const handle = this.handleAt(p);
+    if (handle) {
+      this.drag = handle.drag;
+      return;
+    }
+    this.select(this.shapeAt(p));
+    if (this.selected !== null) {
+      const original = editableShape(this.shapes()[this.selected]);
+      this.drag = { kind: "move", start: p, original };
+    }
+  }
+
+  private onMove(event: PointerEvent): void {
+    const p = this.toImage(event);
+    const { drag } = this;
+    if (!drag) {
+      if (this.tool === "select") {
+        const over = this.handleAt(p) ?? this.shapeAt(p);
+        this.canvas.style.cursor = over === null ? "" : "pointer";
+      }
+      return;
+    }
+    if (drag.kind === "draw") {
+      drag.current = p;
+      this.draw();
+      return;
+    }
+    if (this.selected === null) return;
+    this.editShapes()[this.selected] = this.dragged(drag, p);
+    this.draw();
+  }
+
+  private onUp(): void {
+    const { drag } = this;
+    this.drag = null;
+    if (drag?.kind !== "draw") {
+      this.renderPanel(); // The selected shape's fields may have changed
+      return;
+    }
+    const shape = this.drawnShape(drag.start, drag.current);
+    if (shape) this.add(shape);
+    else this.draw();
+  }
+
+  private onKey(event: KeyboardEvent): void {
+    if (!this.active) return;
+    // Keys typed into the panel's fields are theirs.
+    const target = event.target as HTMLElement;
+    if (target.closest("input, select, textarea")) return;
+    if (event.key === "Enter") {
+      this.finishPolygon();
+    } else if (event.key === "Escape") {
+      this.draft = [];
+      this.select(null);
+    } else if (
+      (event.key === "Delete" || event.key === "Backspace") &&
+      this.selected !== null
+    ) {
+      event.preventDefault();
+      this.editShapes().splice(this.selected, 1);
+      this.select(null);
+    }
+  }
+
+  // --- Editing ---
+
+  // The shape being dragged, with the mouse at 'p'.
+  private dragged(
+    drag: Exclude<Drag, { kind: "draw" }>,
+    p: Point
+  ): GroundTruthShape {
+    const { original } = drag;
+    const center = original.center!;
+    switch (drag.kind) {
+      case "move":
+        return translateShape(
+          original,
+          p.x - drag.start.x,
+          p.y - drag.start.y
+        );
+      case "vertex": {
+        const vertices = [...original.vertices!];
+        vertices[drag.index] = p;
+        return withDerivedFields({ ...original, vertices });
+      }
+      case "radius":
+        return withDerivedFields({
+          ...original,
+          radius: Math.hypot(p.x - center.x, p.y - center.y),
+        });
+      case "axis": {
+        const length = Math.hypot(p.x - center.x, p.y - center.y);
+        if (drag.axis === "minor") {
+          return withDerivedFields({ ...original, semi_minor_axis: length });
+        }
+        const angle = Math.atan2(p.y - center.y, p.x - center.x);
+        return withDerivedFields({
+          ...original,
+          semi_major_axis: length,
+          rotation_degrees: (((angle * 180) / Math.PI) % 180 + 180) % 180,
+        });
+      }
+      case "scale": {
+        const { corner, anchor } = drag;
+        // A box with no width (or height) can't be stretched that way.
+        const scaleX =
+          corner.x === anchor.x ? 1 : (p.x - anchor.x) / (corner.x - anchor.x);
+        const scaleY =
+          corner.y === anchor.y ? 1 : (p.y - anchor.y) / (corner.y - anchor.y);
+        return scaleShape(original, anchor, scaleX, scaleY);
+      }
+    }
+  }
+
+  // The shape drawn by dragging from 'start' to 'end', or null when the
+  // drag was too short to mean one.
+  private drawnShape(start: Point, end: Point): GroundTruthShape | null {
+    const width = Math.abs(end.x - start.x);
+    const height = Math.abs(end.y - start.y);
+    if (Math.max(width, height) < MIN_DRAWN_SIZE) return null;
+    const center = { x: (start.x + end.x) / 2, y: (start.y + end.y) / 2 };
+    const left = Math.min(start.x, end.x);
+    const top = Math.min(start.y, end.y);
+    switch (this.tool) {
+      case "circle":
+        return withDerivedFields({
+          type: "circle",
+          center: start,
+          radius: Math.hypot(end.x - start.x, end.y - start.y),
+        });
+      case "ellipse":
+        return withDerivedFields({
+          type: "ellipse",
+          center,
+          semi_major_axis: Math.max(width, height) / 2,
+          semi_minor_axis: Math.min(width, height) / 2,
+          rotation_degrees: height > width ? 90 : 0,
+        });
+      case "rectangle":
+        return withDerivedFields({
+          type: "rectangle",
+          vertices: [
+            { x: left, y: top },
+            { x: left + width, y: top },
+            { x: left + width, y: top + height },
+            { x: left, y: top + height },
+          ],
+        });
+      default:
+        return null;
+    }
+  }
+
+  private finishPolygon(): void {
+    // The clicks of a double-click also add corners, on top of the last.
+    const vertices = this.draft.filter(
+      (p, i, all) => i === 0 || !this.near(p, all[i - 1])
+    );
+    if (this.tool !== "polygon" || vertices.length < 3) return;
+    this.draft = [];
+    if (polygonArea(vertices) < MIN_DRAWN_SIZE * MIN_DRAWN_SIZE) {
+      this.draw();
+      return;
+    }
+    const type = polygonType(vertices.length);
+    this.add(withDerivedFields({ type, vertices }));
+  }
+
+  private add(shape: GroundTruthShape): void {
+    const shapes = this.editShapes();
+    shapes.push(shape);
+    this.select(shapes.length - 1);
+  }
+
+  private select(index: number | null): void {
+    this.selected = index;
+    this.draw();
+    this.renderPanel();
+  }
+
+  // Replaces the selected shape with an edited copy of it.
+  private updateSelected(
+    edit: (shape: GroundTruthShape) => GroundTruthShape
+  ): void {
+    if (this.selected === null) return;
+    const shapes = this.editShapes();
+    shapes[this.selected] = edit(editableShape(shapes[this.selected]));
+    this.draw();
+    this.renderPanel();
+  }
+
+  // --- Hit testing ---
+
+  // Mouse position in image pixels.
+  private toImage(event: MouseEvent): Point {
+    const rect = this.canvas.getBoundingClientRect();
+    return {
+      x: ((event.clientX - rect.left) * this.canvas.width) / rect.width,
+      y: ((event.clientY - rect.top) * this.canvas.height) / rect.height,
+    };
+  }
+
+  // One CSS pixel in image pixels.
+  private unit(): number {
+    const displayed = this.canvas.getBoundingClientRect().width;
+    return displayed > 0 ? Math.max(1, this.canvas.width / displayed) : 1;
+  }
+
+  private near(a: Point, b: Point): boolean {
+    return Math.hypot(a.x - b.x, a.y - b.y) <= GRAB_DISTANCE * this.unit();
+  }
+
+  // The smallest shape under 'p', as in the detection overlay.
+  private shapeAt(p: Point): number | null {
+    let best: number | null = null;
+    let bestArea = Infinity;
+    this.shapes().forEach((shape, index) => {
+      const points = outline(editableShape(shape));
+      if (!containsPoint(points, p)) return;
+      const area = polygonArea(points);
+      if (area < bestArea) {
+        best = index;
+        bestArea = area;
+      }
+    });
+    return best;
+  }
+
+  private handleAt(p: Point): Handle | null {
+    return this.handles().find((handle) => this.near(handle.point, p)) ?? null;
+  }
+
+  // The selected shape's handles: its corners (polygons), radius or axis
+  // ends (curves), and the corners of its bounding box, for resizing.
+  private handles(): Handle[] {
+    if (this.selected === null || this.tool !== "select") return [];
+    const shape = editableShape(this.shapes()[this.selected]);
+    const original = withDerivedFields(shape);
+    const center = original.center!;
+    const handles: Handle[] = [];
+    const kind = geometryKind(shape.type);
+    if (kind === "polygon") {
+      original.vertices!.forEach((point, index) => {
+        handles.push({ point, drag: { kind: "vertex", index, original } });
+      });
+    } else if (kind === "circle") {
+      handles.push({
+        point: { x: center.x + original.radius!, y: center.y },
+        drag: { kind: "radius", original },
+      });
+    } else {
+      const angle = (original.rotation_degrees! * Math.PI) / 180;
+      const along = (length: number, turn: number) => ({
+        x: center.x + length * Math.cos(angle + turn),
+        y: center.y + length * Math.sin(angle + turn),
+      });
+      handles.push(
+        {
+          point: along(original.semi_major_axis!, 0),
+          drag: { kind: "axis", axis: "major", original },
+        },
+        {
+          point: along(original.semi_minor_axis!, Math.PI / 2),
+          drag: { kind: "axis", axis: "minor", original },
+        }
+      );
+    }
+    const box = original.bounding_box!;
+    const corners = [
+      { x: box.x, y: box.y },
+      { x: box.x + box.width, y: box.y },
+      { x: box.x + box.width, y: box.y + box.height },
+      { x: box.x, y: box.y + box.height },
+    ];
+    corners.forEach((corner, i) => {
+      const anchor = corners[(i + 2) % 4];
+      handles.push({
+        point: corner,
+        drag: { kind: "scale", corner, anchor, original },
+      });
+    });
+    return handles;
+  }
+
+  // --- Drawing ---
+
+  private draw(): void {
+    const { canvas, ctx } = this;
+    if (canvas.width !== this.image.width) canvas.width = this.image.width;
+    if (canvas.height !== this.image.height) canvas.height = this.image.height;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    if (!this.active) return;
+    const unit = this.unit();
+
+    this.shapes().forEach((shape, index) => {
+      const bold = index === this.selected;
+      const points = outline(editableShape(shape));
+      const color = TYPE_COLORS[shape.type as DetectedShape["type"]] ?? "#fff";
+      ctx.save();
+      ctx.strokeStyle = color;
+      ctx.fillStyle = color;
+      ctx.lineWidth = (bold ? 3 : 2) * unit;
+      ctx.globalAlpha = 0.2;
+      this.tracePath(points);
+      ctx.fill();
+      ctx.globalAlpha = 1;
+      ctx.stroke();
+      ctx.font = `${12 * unit}px sans-serif`;
+      const box = shape.bounding_box;
+      if (box) ctx.fillText(shape.type, box.x, box.y - 4 * unit);
+      ctx.restore();
+    });
+
+    // Handles of the selected shape
+    ctx.fillStyle = "#fff";
+    ctx.strokeStyle = "#000";
+    ctx.lineWidth = unit;
+    const size = HANDLE_SIZE * unit;
+    for (const { point } of this.handles()) {
+      ctx.fillRect(point.x - size / 2, point.y - size / 2, size, size);
+      ctx.strokeRect(point.x - size / 2, point.y - size / 2, size, size);
+    }
+
+    // What is being drawn
+    ctx.strokeStyle = "#fff";
+    ctx.setLineDash([4 * unit, 2 * unit]);
+    ctx.lineWidth = 2 * unit;
+    if (this.drag?.kind === "draw") {
+      const shape = this.drawnShape(this.drag.start, this.drag.current);
+      if (shape) {
+        this.tracePath(outline(shape));
+        ctx.stroke();
+      }
+    }
+    if (this.draft.length > 0) {
+      ctx.beginPath();
+      this.draft.forEach((p, i) => {
+        if (i === 0) ctx.moveTo(p.x, p.y);
+        else ctx.lineTo(p.x, p.y);
+      });
+      ctx.stroke();
+    }
+    ctx.setLineDash([]);
+  }
+
+  private tracePath(points: Point[]): void {
+    const { ctx } = this;
+    ctx.beginPath();
+    points.forEach((p, i) => {
+      if (i === 0) ctx.moveTo(p.x, p.y);
+      else ctx.lineTo(p.x, p.y);
+    });
+    ctx.closePath();
+  }
+
+  // --- Panel ---
+
+  private renderPanel(): void {
+    const shapes = this.shapes();
+    const selected =
+      this.selected !== null ? editableShape(shapes[this.selected]) : null;
+    const labeled =
+      this.imageName !== null && this.imageName in this.data.images;
+
+    const tools = TOOLS.map(
+      ({ tool, label }) =>
+        `<button data-tool="${tool}" class="${
+          tool === this.tool ? "active" : ""
+        }">${label}</button>`
+    ).join("");
+    let html = `
+      <div class="annotation-tools">${tools}</div>
+      <div class="annotation-actions">
+        <button data-action="seed">Seed from detections</button>
+        <label class="annotation-load">
+          Load file <input type="file" accept=".json,application/json" />
+        </label>
+        <button data-action="save">Save ground_truth.json</button>
+      </div>
+      <p>${
+        this.imageName === null
+          ? "Load an image to label it."
+          : `<strong>${escapeHtml(this.imageName)}</strong>: ${
+              labeled ? `${shapes.length} labeled shapes` : "not labeled yet"
+            }`
+      }</p>
+    `;
+    if (selected) {
+      const kind = geometryKind(selected.type);
+      const options = SHAPE_TYPES.map(
+        (type) =>
+          `<option value="${type}" ${
+            type === selected.type ? "selected" : ""
+          }>${type}</option>`
+      ).join("");
+      html += `
+        <div class="annotation-fields">
+          <label>Type <select data-field="type">${options}</select></label>
+          ${
+            kind === "circle"
+              ? `<label>Radius <input type="number" data-field="radius"
+                   min="0" step="0.5" value="${selected.radius}" /></label>`
+              : ""
+          }
+          <label>Notes <input type="text" data-field="notes"
+            value="${escapeHtml(selected.notes ?? "")}" /></label>
+          <button data-action="delete">Delete</button>
+        </div>
+      `;
+    }
+    html += `<p class="annotation-hint">${this.hint()}</p>`;
+    this.panel.innerHTML = html;
+
+    this.panel
+      .querySelectorAll<HTMLButtonElement>("[data-tool]")
+      .forEach((button) => {
+        button.addEventListener("click", () =>
+          this.setTool(button.dataset.tool as AnnotationTool)
+        );
+      });
+    this.on("[data-action=seed]", "click", () => this.seedFromDetections());
+    this.on("[data-action=save]", "click", () => this.save());
+    this.on("[data-action=delete]", "click", () => {
+      if (this.selected === null) return;
+      this.editShapes().splice(this.selected, 1);
+      this.select(null);
+    });
+    this.on(".annotation-load input", "change", async (input) => {
+      const file = (input as HTMLInputElement).files?.[0];
+      if (!file) return;
+      try {
+        this.load(JSON.parse(await file.text()) as GroundTruthData);
+      } catch (error) {
+        alert(`Could not load ${file.name}: ${error}`);
+      }
+    });
+    this.on("[data-field=type]", "change", (select) => {
+      const type = (select as HTMLSelectElement).value;
+      this.updateSelected((shape) => convertShape(shape, type));
+    });
+    this.on("[data-field=radius]", "change", (input) => {
+      const radius = Number((input as HTMLInputElement).value);
+      if (!(radius > 0)) return;
+      this.updateSelected((shape) => withDerivedFields({ ...shape, radius }));
+    });
+    this.on("[data-field=notes]", "change", (input) => {
+      const notes = (input as HTMLInputElement).value;
+      this.updateSelected((shape) => {
+        const edited: GroundTruthShape = { ...shape, notes };
+        if (!notes) delete edited.notes;
+        return edited;
+      });
+    });
+  }
+
+  private on(
+    selector: string,
+    event: string,
+    handler: (element: HTMLElement) => void
+  ): void {
+    const element = this.panel.querySelector<HTMLElement>(selector);
+    element?.addEventListener(event, () => handler(element));
+  }
+
+  private hint(): string {
+    switch (this.tool) {
+      case "select":
+        return (
+          "Click a shape to select it, drag it to move it, and drag its " +
+          "handles to reshape or resize it. Delete removes it."
+        );
+      case "circle":
+        return "Drag from the center outwards.";
+      case "ellipse":
+      case "rectangle":
+        return "Drag across the shape.";
+      case "polygon":
+        return (
+          "Click each corner, then double-click, press Enter or click the " +
+          "first corner to finish."
+        );
+    }
+  }
+}
+
+// Even-odd point-in-polygon test.
+function containsPoint(polygon: Point[], p: Point): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if (a.y > p.y !== b.y > p.y) {
+      const crossX = a.x + ((p.y - a.y) * (b.x - a.x)) / (b.y - a.y);
+      if (p.x < crossX) inside = !inside;
+    }
+  }
+  return inside;
+}
@@ -0,0 +1,433 @@
+// Editing ground-truth shapes (the GroundTruthShape entries of
+// ground_truth.json), for the annotation editor (annotation-editor.ts).
+//
+// Ground truth describes each shape's geometry in one of three ways, by
+// type: circles by center and radius, ellipses by center, semi-axes and
+// rotation, and everything else by its vertices. Entries written by hand may
+// leave the geometry out and only give a bounding box, so before a shape is
+// edited we fill it in (editableShape). After every edit the fields derived
+// from the geometry (center, bounding box, area, sides or points) are
+// computed again (withDerivedFields), so they always agree with it.
+//
+// All coordinates are canvas coordinates, like the rest of the file.
+
+import type { GroundTruthShape } from "./evaluation-utils.js";
+import { polygonArea, polygonCentroid } from "./geometry.js";
+import type { PixelBox } from "./geometry.js";
+import type { CoordinateFrame } from "./pyramid.js";
+import type { DetectedShape, Point } from "./shape-detector.js";
+
+export type GeometryKind = "circle" | "ellipse" | "polygon";
+
+// Side counts of the polygons with a name of their own.
+const SIDES_OF_TYPE: Record<string, number> = {
+  triangle: 3,
+  rectangle: 4,
+  pentagon: 5,
+  hexagon: 6,
+  heptagon: 7,
+  octagon: 8,
+};
+
+const NAME_OF_SIDES: Record<number, string> = {
+  3: "triangle",
+  4: "rectangle",
+  5: "pentagon",
+  6: "hexagon",
+  7: "heptagon",
+  8: "octagon",
+};
+
+// A generic "polygon" made from a curve gets the first side count without
+// a name of its own.
+const DEFAULT_POLYGON_SIDES = 9;
+// A star made from another shape: five points, inner radius half the outer.
+const DEFAULT_STAR_POINTS = 5;
+const DEFAULT_STAR_RATIO = 0.5;
+
+// Geometry fields of the other kinds, dropped when a shape changes kind.
+const GEOMETRY_FIELDS = [
+  "radius",
+  "semi_major_axis",
+  "semi_minor_axis",
+  "rotation_degrees",
+  "vertices",
+  "outer_radius",
+  "inner_radius",
+  "sides",
+  "points",
+];
+
+export function geometryKind(type: string): GeometryKind {
+  if (type === "circle") return "circle";
+  if (type === "ellipse") return "ellipse";
+  return "polygon";
+}
+
+// The name for a polygon with this many corners, "polygon" when it has
+// none of its own.
+export function polygonType(sides: number): string {
+  return NAME_OF_SIDES[sides] ?? "polygon";
+}
+
+/**
+ * A copy of the shape with its geometry filled in from whatever the entry
+ * gives: a circle's radius from its bounding box, a star's vertices from its
+ * outer and inner radius, a rectangle's from its box and rotation, and so
+ * on. Fields it doesn't use are kept as they are.
+ */
+export function editableShape(shape: GroundTruthShape): GroundTruthShape {
+  const edited: GroundTruthShape = structuredClone(shape);
+  const box = shape.bounding_box ?? { x: 0, y: 0, width: 0, height: 0 };
+  const center = shape.center ?? {
+    x: box.x + box.width / 2,
+    y: box.y + box.height / 2,
+  };
+  edited.center = center;
+  const kind = geometryKind(shape.type);
+
+  if (kind === "circle") {
+    edited.radius ??= Math.min(box.width, box.height) / 2;
+  } else if (kind === "ellipse") {
+    edited.semi_major_axis ??= Math.max(box.width, box.height) / 2;
+    edited.semi_minor_axis ??= Math.min(box.width, box.height) / 2;
+    edited.rotation_degrees ??= box.height > box.width ? 90 : 0;
+  } else if (!shape.vertices || shape.vertices.length < 3) {
+    const rotation = shape.rotation_degrees ?? 0;
+    if (shape.type === "star") {
+      const outer =
+        shape.outer_radius ?? Math.min(box.width, box.height) / 2;
+      edited.vertices = starVertices(
+        center,
+        shape.points ?? DEFAULT_STAR_POINTS,
+        outer,
+        shape.inner_radius ?? outer * DEFAULT_STAR_RATIO
+      );
+    } else if (shape.type === "rectangle") {
+      // Hand-written rotated rectangles give their unrotated size as the
+      // bounding box.
+      edited.vertices = rectangleVertices(
+        center,
+        box.width,
+        box.height,
+        rotation
+      );
+    } else {
+      const sides =
+        SIDES_OF_TYPE[shape.type] ?? shape.sides ?? DEFAULT_POLYGON_SIDES;
+      const radius = shape.radius ?? Math.min(box.width, box.height) / 2;
+      edited.vertices = regularPolygon(center, sides, radius, rotation);
+    }
+  }
+  return edited;
+}
+
+/**
+ * The shape with center, bounding box, area, and sides (polygons) or points
+ * (stars) computed from its geometry, rounded to hundredths of a pixel.
+ * Geometry fields of other kinds, and a rectangle's rotation (now in its
+ * vertices), are removed.
+ */
+export function withDerivedFields(shape: GroundTruthShape): GroundTruthShape {
+  const kind = geometryKind(shape.type);
+  const derived: GroundTruthShape = { ...shape };
+  const keep =
+    kind === "circle"
+      ? ["radius"]
+      : kind === "ellipse"
+        ? ["semi_major_axis", "semi_minor_axis", "rotation_degrees"]
+        : ["vertices"];
+  for (const field of GEOMETRY_FIELDS) {
+    if (!keep.includes(field)) delete derived[field];
+  }
+
+  const center = shape.center ?? { x: 0, y: 0 };
+  if (kind === "circle") {
+    const radius = round(shape.radius ?? 0);
+    derived.radius = radius;
+    derived.center = roundPoint(center);
+    derived.bounding_box = roundBox({
+      x: center.x - radius,
+      y: center.y - radius,
+      width: 2 * radius,
+      height: 2 * radius,
+    });
+    derived.area = round(Math.PI * radius * radius);
+  } else if (kind === "ellipse") {
+    const a = round(shape.semi_major_axis ?? 0);
+    const b = round(shape.semi_minor_axis ?? 0);
+    const angle = ((shape.rotation_degrees ?? 0) * Math.PI) / 180;
+    // Half the width and height of the rotated ellipse's bounding box.
+    const halfWidth = Math.hypot(a * Math.cos(angle), b * Math.sin(angle));
+    const halfHeight = Math.hypot(a * Math.sin(angle), b * Math.cos(angle));
+    Object.assign(derived, {
+      semi_major_axis: a,
+      semi_minor_axis: b,
+      rotation_degrees: round(shape.rotation_degrees ?? 0),
+      center: roundPoint(center),
+      bounding_box: roundBox({
+        x: center.x - halfWidth,
+        y: center.y - halfHeight,
+        width: 2 * halfWidth,
+        height: 2 * halfHeight,
+      }),
+      area: round(Math.PI * a * b),
+    });
+  } else {
+    const vertices = (shape.vertices ?? []).map(roundPoint);
+    derived.vertices = vertices;
+    derived.center = roundPoint(polygonCentroid(vertices));
+    derived.bounding_box = roundBox(boundsOf(vertices));
+    derived.area = round(polygonArea(vertices));
+    if (shape.type === "star") derived.points = vertices.length / 2;
+    else if (shape.type === "polygon") derived.sides = vertices.length;
+  }
+  return derived;
+}
+
+/**
+ * The shape as another type. Between polygon types the vertices are kept
+ * when their number fits the new type (any number for "polygon", an even
+ * number for stars); otherwise a regular shape of the new type takes the
+ * old one's place, at the same center and about the same size.
+ */
+export function convertShape(
+  shape: GroundTruthShape,
+  type: string
+): GroundTruthShape {
+  const source = editableShape(shape);
+  const center = source.center!;
+  const size = meanRadius(source);
+  const converted: GroundTruthShape = { ...source, type };
+  const kind = geometryKind(type);
+  const vertices = geometryKind(source.type) === "polygon" && source.vertices;
+
+  if (kind === "circle") {
+    converted.radius = size;
+  } else if (kind === "ellipse") {
+    const box = boundsOf(outline(source));
+    converted.semi_major_axis = Math.max(box.width, box.height) / 2;
+    converted.semi_minor_axis = Math.min(box.width, box.height) / 2;
+    converted.rotation_degrees = box.height > box.width ? 90 : 0;
+  } else if (type === "star") {
+    converted.vertices =
+      vertices && vertices.length >= 6 && vertices.length % 2 === 0
+        ? vertices
+        : starVertices(
+            center,
+            DEFAULT_STAR_POINTS,
+            size,
+            size * DEFAULT_STAR_RATIO
+          );
+  } else {
+    const sides = SIDES_OF_TYPE[type];
+    converted.vertices =
+      vertices && (sides === undefined || vertices.length === sides)
+        ? vertices
+        : regularPolygon(center, sides ?? DEFAULT_POLYGON_SIDES, size, 0);
+  }
+  return withDerivedFields(converted);
+}
+
+// A ground-truth entry for a detected shape, to start labeling from.
+// 'frame' is the coordinate frame the detection was measured in.
+export function fromDetection(
+  shape: DetectedShape,
+  frame: CoordinateFrame = "pixels"
+): GroundTruthShape {
+  const offset = frame === "pixels" ? 0.5 : 0;
+  const at = (p: Point): Point => ({ x: p.x + offset, y: p.y + offset });
+  // Detections report every named polygon with its name, and a "polygon"
+  // with its side count, like ground truth.
+  const entry: GroundTruthShape = {
+    type: shape.type,
+    center: at(shape.center),
+  };
+  const box = shape.boundingBox;
+  if (shape.type === "circle") {
+    entry.radius = shape.radius ?? box.width / 2;
+  } else if (shape.type === "ellipse") {
+    entry.semi_major_axis = shape.semiMajorAxis ?? box.width / 2;
+    entry.semi_minor_axis = shape.semiMinorAxis ?? box.height / 2;
+    entry.rotation_degrees = shape.rotation ?? 0;
+  } else if (shape.vertices) {
+    entry.vertices = shape.vertices.map(at);
+  } else {
+    entry.bounding_box = box;
+    return withDerivedFields(editableShape(entry));
+  }
+  return withDerivedFields(entry);
+}
+
+export function translateShape(
+  shape: GroundTruthShape,
+  dx: number,
+  dy: number
+): GroundTruthShape {
+  const move = (p: Point): Point => ({ x: p.x + dx, y: p.y + dy });
+  const moved: GroundTruthShape = {
+    ...shape,
+    center: move(shape.center ?? { x: 0, y: 0 }),
+  };
+  if (shape.vertices) moved.vertices = shape.vertices.map(move);
+  return withDerivedFields(moved);
+}
+
+/**
+ * The shape stretched by 'scaleX' and 'scaleY' away from 'anchor' (the
+ * corner of its bounding box that stays put, when resizing by a handle).
+ * Circles stay circles (scaled by the mean factor), and ellipses are
+ * scaled along their own axes.
+ */
+export function scaleShape(
+  shape: GroundTruthShape,
+  anchor: Point,
+  scaleX: number,
+  scaleY: number
+): GroundTruthShape {
+  const map = (p: Point): Point => ({
+    x: anchor.x + (p.x - anchor.x) * scaleX,
+    y: anchor.y + (p.y - anchor.y) * scaleY,
+  });
+  const scaled: GroundTruthShape = {
+    ...shape,
+    center: map(shape.center ?? anchor),
+  };
+  const kind = geometryKind(shape.type);
+  if (kind === "circle") {
+    scaled.radius =
+      ((shape.radius ?? 0) * (Math.abs(scaleX) + Math.abs(scaleY))) / 2;
+  } else if (kind === "ellipse") {
+    const angle = ((shape.rotation_degrees ?? 0) * Math.PI) / 180;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    // How much each axis grows: the length of its unit vector, scaled.
+    scaled.semi_major_axis =
+      (shape.semi_major_axis ?? 0) * Math.hypot(scaleX * cos, scaleY * sin);
+    scaled.semi_minor_axis =
+      (shape.semi_minor_axis ?? 0) * Math.hypot(scaleX * sin, scaleY * cos);
+  } else if (shape.vertices) {
+    scaled.vertices = shape.vertices.map(map);
+  }
+  return withDerivedFields(scaled);
+}
+
+// The shape's outline as a polygon: its vertices, or points along its
+// circle or ellipse.
+export function outline(shape: GroundTruthShape, segments = 64): Point[] {
+  const kind = geometryKind(shape.type);
+  const center = shape.center ?? { x: 0, y: 0 };
+  if (kind === "polygon") return shape.vertices ?? [];
+  const a = kind === "circle" ? shape.radius ?? 0 : shape.semi_major_axis ?? 0;
+  const b = kind === "circle" ? shape.radius ?? 0 : shape.semi_minor_axis ?? 0;
+  const angle = ((shape.rotation_degrees ?? 0) * Math.PI) / 180;
+  return Array.from({ length: segments }, (_, i) => {
+    const t = (2 * Math.PI * i) / segments;
+    const x = a * Math.cos(t);
+    const y = b * Math.sin(t);
+    return {
+      x: center.x + x * Math.cos(angle) - y * Math.sin(angle),
+      y: center.y + x * Math.sin(angle) + y * Math.cos(angle),
+    };
+  });
+}
+
+// Corners of a regular polygon around 'center', the first one straight up
+// (turned by 'rotation' degrees, clockwise on screen).
+function regularPolygon(
+  center: Point,
+  sides: number,
+  radius: number,
+  rotation: number
+): Point[] {
+  const start = -Math.PI / 2 + (rotation * Math.PI) / 180;
+  return Array.from({ length: sides }, (_, i) => {
+    const angle = start + (2 * Math.PI * i) / sides;
+    return {
+      x: center.x + radius * Math.cos(angle),
+      y: center.y + radius * Math.sin(angle),
+    };
+  });
+}
+
+// Outer and inner corners of a star, alternating, the first point up.
+function starVertices(
+  center: Point,
+  points: number,
+  outer: number,
+  inner: number
+): Point[] {
+  const start = -Math.PI / 2;
+  return Array.from({ length: 2 * points }, (_, i) => {
+    const angle = start + (Math.PI * i) / points;
+    const radius = i % 2 === 0 ? outer : inner;
+    return {
+      x: center.x + radius * Math.cos(angle),
+      y: center.y + radius * Math.sin(angle),
+    };
+  });
+}
+
+function rectangleVertices(
+  center: Point,
+  width: number,
+  height: number,
+  rotation: number
+): Point[] {
+  const angle = (rotation * Math.PI) / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const corners = [
+    [-1, -1],
+    [1, -1],
+    [1, 1],
+    [-1, 1],
+  ];
+  return corners.map(([sx, sy]) => {
+    const x = (sx * width) / 2;
+    const y = (sy * height) / 2;
+    return {
+      x: center.x + x * cos - y * sin,
+      y: center.y + x * sin + y * cos,
+    };
+  });
+}
+
+// About how far the shape's edge is from its center, for swapping it for a
+// shape of another type.
+function meanRadius(shape: GroundTruthShape): number {
+  const center = shape.center ?? { x: 0, y: 0 };
+  const points = outline(shape);
+  if (points.length === 0) return 0;
+  const total = points.reduce(
+    (sum, p) => sum + Math.hypot(p.x - center.x, p.y - center.y),
+    0
+  );
+  return total / points.length;
+}
+
+function boundsOf(points: Point[]): PixelBox {
+  if (points.length === 0) return { x: 0, y: 0, width: 0, height: 0 };
+  const xs = points.map((p) => p.x);
+  const ys = points.map((p) => p.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function roundPoint(p: Point): Point {
+  return { x: round(p.x), y: round(p.y) };
+}
+
+function roundBox(box: PixelBox): PixelBox {
+  return {
+    x: round(box.x),
+    y: round(box.y),
+    width: round(box.width),
+    height: round(box.height),
+  };
+}
@@ -0,0 +1,192 @@
+// Splitting blobs that are really several touching or overlapping shapes.
+//
+// We compute the distance transform of the blob (how far each pixel is from
+// the background). Every shape has its own "peak" in that map, and where two
+// shapes meet there is a narrower neck, so a lower "saddle". We flood the map
+// from the highest values down (a watershed), and keep two peaks apart only
+// when the saddle between them is deep enough. Shallow dips come from pixel
+// noise, not from a second shape, so those peaks get merged.
+
+import { RegionStats } from "./labeling.js";
+import type { Region } from "./labeling.js";
+
+export interface BlobSplit {
+  parts: Region[]; // Statistics of each part, in image coordinates
+  // Part number (1-based) of every pixel in the bounding box, row by row.
+  // 0 means the pixel is not part of the blob.
+  labels: Int32Array;
+}
+
+// Chamfer weights: 3 for a straight step, 4 for a diagonal one. Dividing by 3
+// gives a close approximation of the Euclidean distance in pixels.
+const STRAIGHT = 3;
+const DIAGONAL = 4;
+
+// Start value for blob pixels before the distance passes reach them.
+const UNREACHED = 1 << 29;
+
+// Peaks this close in height (in pixels) are always merged.
+const MIN_PROMINENCE_PX = 2;
+
+// 'isInBlob' tells which pixels (in image coordinates) of 'box' belong to
+// the blob.
+export function splitBlob(
+  isInBlob: (x: number, y: number) => boolean,
+  box: { x: number; y: number; width: number; height: number },
+  minProminence: number
+): BlobSplit {
+  const { width, height } = box;
+  const size = width * height;
+  const inside = new Uint8Array(size);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (isInBlob(box.x + x, box.y + y)) inside[y * width + x] = 1;
+    }
+  }
+
+  const distance = distanceTransform(inside, width, height);
+
+  // --- Flood from the highest distance down ---
+  // Distances are small integers, so a bucket sort is enough.
+  let maxDistance = 0;
+  for (let i = 0; i < size; i++)
+    maxDistance = Math.max(maxDistance, distance[i]);
+  const buckets: number[][] = Array.from({ length: maxDistance + 1 }, () => []);
+  for (let i = 0; i < size; i++) if (inside[i]) buckets[distance[i]].push(i);
+
+  const component = new Int32Array(size).fill(-1);
+  const parent: number[] = []; // Union-find over component IDs
+  const peak: number[] = []; // Highest distance in each component
+  const find = (c: number): number => {
+    while (parent[c] !== c) {
+      parent[c] = parent[parent[c]];
+      c = parent[c];
+    }
+    return c;
+  };
+
+  for (let level = maxDistance; level >= 1; level--) {
+    for (const i of buckets[level]) {
+      const x = i % width;
+      const y = (i - x) / width;
+
+      // Look at the already flooded neighbors. 'steepest' is the component
+      // of the highest one: that's where this pixel flows uphill to.
+      const roots = new Set<number>();
+      let steepest = -1;
+      let steepestDistance = -1;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+          const n = ny * width + nx;
+          if (component[n] < 0) continue;
+          const root = find(component[n]);
+          roots.add(root);
+          if (distance[n] > steepestDistance) {
+            steepestDistance = distance[n];
+            steepest = root;
+          }
+        }
+      }
+
+      if (roots.size === 0) {
+        // A new peak
+        const id = parent.length;
+        parent.push(id);
+        peak.push(level);
+        component[i] = id;
+        continue;
+      }
+
+      // This pixel connects one or more components. The others merge into
+      // the tallest one unless they rise high enough above this saddle to
+      // count as a shape of their own.
+      const sorted = [...roots].sort((a, b) => peak[b] - peak[a]);
+      const main = sorted[0];
+      for (const other of sorted.slice(1)) {
+        const prominence = (peak[other] - level) / STRAIGHT;
+        const needed = Math.max(
+          MIN_PROMINENCE_PX,
+          (minProminence * peak[other]) / STRAIGHT
+        );
+        if (prominence < needed) parent[other] = main;
+      }
+      // Assigning by steepest neighbor (not tallest peak) keeps one shape
+      // from creeping around the rim of another along a level line.
+      component[i] = find(steepest);
+    }
+  }
+
+  // --- Collect the final parts ---
+  // Parts are numbered in row-by-row order of their first pixel.
+  const partOf = new Map<number, number>();
+  const stats = new RegionStats();
+  const labels = new Int32Array(size);
+  for (let i = 0; i < size; i++) {
+    if (!inside[i]) continue;
+    const root = find(component[i]);
+    let part = partOf.get(root);
+    if (part === undefined) {
+      stats.addRegion(i);
+      part = stats.count;
+      partOf.set(root, part);
+    }
+    labels[i] = part;
+    stats.add(part, i % width, Math.floor(i / width));
+  }
+
+  const parts: Region[] = [];
+  for (let part = 1; part <= stats.count; part++) {
+    parts.push(stats.region(part, width, box));
+  }
+  return { parts, labels };
+}
+
+// Two-pass chamfer distance transform. Pixels outside the box count as
+// background, so the result is the distance to the nearest non-blob pixel.
+function distanceTransform(
+  inside: Uint8Array,
+  width: number,
+  height: number
+): Int32Array {
+  const distance = new Int32Array(width * height);
+  const at = (x: number, y: number) =>
+    x < 0 || y < 0 || x >= width || y >= height ? 0 : distance[y * width + x];
+
+  for (let i = 0; i < distance.length; i++) {
+    distance[i] = inside[i] ? UNREACHED : 0;
+  }
+
+  // Forward pass: top-left to bottom-right
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      if (!inside[i]) continue;
+      distance[i] = Math.min(
+        distance[i],
+        at(x - 1, y) + STRAIGHT,
+        at(x, y - 1) + STRAIGHT,
+        at(x - 1, y - 1) + DIAGONAL,
+        at(x + 1, y - 1) + DIAGONAL
+      );
+    }
+  }
+
+  // Backward pass: bottom-right to top-left
+  for (let y = height - 1; y >= 0; y--) {
+    for (let x = width - 1; x >= 0; x--) {
+      const i = y * width + x;
+      if (!inside[i]) continue;
+      distance[i] = Math.min(
+        distance[i],
+        at(x + 1, y) + STRAIGHT,
+        at(x, y + 1) + STRAIGHT,
+        at(x + 1, y + 1) + DIAGONAL,
+        at(x - 1, y + 1) + DIAGONAL
+      );
+    }
+  }
+  return distance;
+}
@@ -0,0 +1,159 @@
+import { ShapeDetector } from "../shape-detector.js";
+import type { DetectionProgress, RasterImage } from "../shape-detector.js";
+import type { DetectorOptions } from "../detector-options.js";
+
+export interface BenchmarkOptions {
+  width: number;
+  height: number;
+  runs: number;
+  detector: Partial<DetectorOptions>;
+}
+
+// Milliseconds spent in each part of one detectShapes call.
+interface RunTimes {
+  segmentation: number; // Grayscale and threshold (or color clustering)
+  labeling: number; // Connected components
+  shapes: number; // Contours, holes, fits and classification
+  total: number;
+}
+
+// Times detectShapes on a synthetic photo-sized image, so changes to the
+// pipeline can be compared on the image sizes we actually get (a 12 MP
+// camera photo is 4000x3000). The per-stage split comes from the progress
+// reports, which detectShapes sends as it enters each stage.
+export async function runBenchmark(options: BenchmarkOptions): Promise<void> {
+  const { width, height, runs } = options;
+  const image = syntheticImage(width, height);
+  const detector = new ShapeDetector(undefined, options.detector);
+  const megapixels = (width * height) / 1e6;
+  console.log(
+    `Benchmark: ${width}x${height} (${megapixels.toFixed(1)} MP), ` +
+      `${runs} run${runs === 1 ? "" : "s"}`
+  );
+
+  const times: RunTimes[] = [];
+  let shapeCount = 0;
+  for (let run = 0; run < runs; run++) {
+    const stageStart: Partial<Record<DetectionProgress["stage"], number>> =
+      {};
+    const start = performance.now();
+    const result = await detector.detectShapes(image, undefined, {
+      onProgress: ({ stage }) => {
+        stageStart[stage] ??= performance.now();
+      },
+    });
+    const end = performance.now();
+    // Without any blobs there is no "shapes" report; that stage took 0 ms.
+    const blobs = stageStart.blobs ?? start;
+    const shapes = stageStart.shapes ?? stageStart.done ?? end;
+    times.push({
+      segmentation: blobs - start,
+      labeling: shapes - blobs,
+      shapes: (stageStart.done ?? end) - shapes,
+      total: end - start,
+    });
+    shapeCount = result.shapes.length;
+    console.log(`  run ${run + 1}: ${formatTimes(times[run])}`);
+  }
+
+  // The median is less thrown off by a garbage collection in one run.
+  const median = (pick: (t: RunTimes) => number) => {
+    const sorted = times.map(pick).sort((a, b) => a - b);
+    return sorted[Math.floor(sorted.length / 2)];
+  };
+  const summary: RunTimes = {
+    segmentation: median((t) => t.segmentation),
+    labeling: median((t) => t.labeling),
+    shapes: median((t) => t.shapes),
+    total: median((t) => t.total),
+  };
+  console.log(`  median: ${formatTimes(summary)}`);
+  console.log(
+    `  ${shapeCount} shapes, ` +
+      `${(megapixels / (summary.total / 1000)).toFixed(1)} MP/s`
+  );
+}
+
+function formatTimes(times: RunTimes): string {
+  const ms = (value: number) => `${value.toFixed(0)} ms`;
+  return (
+    `${ms(times.total)} total (segmentation ${ms(times.segmentation)}, ` +
+    `labeling ${ms(times.labeling)}, shapes ${ms(times.shapes)})`
+  );
+}
+
+// A light, slightly noisy background with a grid of dark shapes: circles,
+// squares and triangles whose size scales with the image, plus some
+// speckle noise that makes many tiny blobs, like a real photo does. The
+// image only depends on its size, so runs are comparable.
+export function syntheticImage(width: number, height: number): RasterImage {
+  const data = new Uint8ClampedArray(width * height * 4);
+  let seed = 1;
+  const random = () => {
+    // Park-Miller LCG: fast and deterministic
+    seed = (seed * 16807) % 2147483647;
+    return seed / 2147483647;
+  };
+
+  for (let i = 0; i < width * height; i++) {
+    const gray = 235 + Math.floor(random() * 20);
+    data[i * 4] = data[i * 4 + 1] = data[i * 4 + 2] = gray;
+    data[i * 4 + 3] = 255;
+  }
+
+  const fill = (
+    box: { x: number; y: number; size: number },
+    isInside: (u: number, v: number) => boolean
+  ) => {
+    for (let y = box.y; y < box.y + box.size; y++) {
+      for (let x = box.x; x < box.x + box.size; x++) {
+        // (u, v) runs from 0 to 1 across the shape's square
+        const u = (x - box.x + 0.5) / box.size;
+        const v = (y - box.y + 0.5) / box.size;
+        if (!isInside(u, v)) continue;
+        const i = (y * width + x) * 4;
+        data[i] = data[i + 1] = data[i + 2] = 30;
+      }
+    }
+  };
+
+  // Cells of 10% of the shorter side, with the shape taking up 60% of each
+  const cell = Math.max(20, Math.floor(Math.min(width, height) / 10));
+  const size = Math.floor(cell * 0.6);
+  let kind = 0;
+  for (let y = 0; y + cell <= height; y += cell) {
+    for (let x = 0; x + cell <= width; x += cell) {
+      const box = {
+        x: x + Math.floor((cell - size) / 2),
+        y: y + Math.floor((cell - size) / 2),
+        size,
+      };
+      switch (kind++ % 3) {
+        case 0:
+          fill(box, (u, v) => (u - 0.5) ** 2 + (v - 0.5) ** 2 <= 0.25);
+          break;
+        case 1:
+          fill(box, () => true);
+          break;
+        case 2:
+          fill(box, (u, v) => v >= 2 * Math.abs(u - 0.5));
+          break;
+      }
+    }
+  }
+
+  // Dark specks: one per ~2000 pixels
+  const speckCount = Math.floor((width * height) / 2000);
+  for (let n = 0; n < speckCount; n++) {
+    const x = Math.floor(random() * (width - 2));
+    const y = Math.floor(random() * (height - 2));
+    for (let dy = 0; dy < 2; dy++) {
+      for (let dx = 0; dx < 2; dx++) {
+        const i = ((y + dy) * width + (x + dx)) * 4;
+        data[i] = data[i + 1] = data[i + 2] = 60;
+      }
+    }
+  }
+
+  return { data, width, height };
+}
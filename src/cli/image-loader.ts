@@ -0,0 +1,49 @@
+import { readFile } from "node:fs/promises";
+import { PNG } from "pngjs";
+import { Resvg } from "@resvg/resvg-js";
+import type { RasterImage } from "../shape-detector.js";
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+// Reads an image file from disk and decodes it into RGBA pixels, the same
+// layout a canvas hands back from getImageData().
+// We sniff the contents instead of trusting the extension, because the
+// bundled test images are named '*.png' but are really SVG documents.
+export async function loadImageFile(path: string): Promise<RasterImage> {
+  const buffer = await readFile(path);
+
+  if (isPng(buffer)) {
+    return decodePng(buffer);
+  }
+
+  const text = buffer.toString("utf8");
+  if (text.includes("<svg")) {
+    return decodeSvg(text);
+  }
+
+  throw new Error(`Unsupported image format: ${path} (expected PNG or SVG)`);
+}
+
+function isPng(buffer: Buffer): boolean {
+  return PNG_SIGNATURE.every((byte, i) => buffer[i] === byte);
+}
+
+function decodePng(buffer: Buffer): RasterImage {
+  // pngjs always expands to 8-bit RGBA, whatever the source color type.
+  const png = PNG.sync.read(buffer);
+  return toRaster(png.data, png.width, png.height);
+}
+
+function decodeSvg(svg: string): RasterImage {
+  // Render at the SVG's own size, like drawing it onto a canvas in the browser.
+  const rendered = new Resvg(svg).render();
+  return toRaster(rendered.pixels, rendered.width, rendered.height);
+}
+
+function toRaster(pixels: Buffer, width: number, height: number): RasterImage {
+  return {
+    data: new Uint8ClampedArray(pixels),
+    width,
+    height,
+  };
+}
@@ -0,0 +1,260 @@
+import { ShapeDetector } from "../shape-detector.js";
+import type { DetectionResult } from "../shape-detector.js";
+import {
+  isDetectorOptionName,
+  parseDetectorOptionValue,
+} from "../detector-options.js";
+import type { DetectorOptions } from "../detector-options.js";
+import { loadImageFile } from "./image-loader.js";
+import { runBenchmark } from "./benchmark.js";
+import { ShapeTracker } from "../tracking.js";
+import type { TrackStats } from "../tracking.js";
+import { toCoco, toCsv, toSvg } from "../export.js";
+import type { ExportFormat } from "../export.js";
+
+const USAGE = `Usage: shape-detector detect <files...>
+       shape-detector track <frames...> [--fps <n>]
+       shape-detector benchmark [--size <width>x<height>] [--runs <n>]
+
+detect     Decodes each PNG or SVG file and prints its DetectionResult as
+           JSON. With more than one file, the output is an object keyed by
+           file path. See --format for other outputs.
+track      Detects shapes in each file as consecutive frames of a video
+           (in natural name order) and links them across frames: every
+           shape gets a trackId, and per-track stats follow the frames.
+benchmark  Times detection on a synthetic image, per pipeline stage.
+           The default size is 4000x3000 (12 MP), with 3 runs.
+
+Options:
+  --option <name>=<value>  Override a DetectorOptions value, e.g.
+                           --option minBlobArea=200 (repeatable)
+  --compact                Print JSON on a single line
+  --format <format>        detect output: json (default), coco (one
+                           annotation file for all files), or csv or svg
+                           (one file only)
+  --fps <n>                Frame rate of a tracked sequence (default 10)
+  --size <width>x<height>  Benchmark image size
+  --runs <n>               Number of benchmark runs
+  -h, --help               Show this message`;
+
+interface CliArgs {
+  command: string | undefined;
+  files: string[];
+  options: Partial<DetectorOptions>;
+  compact: boolean;
+  format: ExportFormat;
+  size: { width: number; height: number };
+  runs: number;
+  fps: number;
+  help: boolean;
+}
+
+function parseArgs(argv: string[]): CliArgs {
+  const args: CliArgs = {
+    command: undefined,
+    files: [],
+    options: {},
+    compact: false,
+    format: "json",
+    size: { width: 4000, height: 3000 },
+    runs: 3,
+    fps: 10,
+    help: false,
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "-h" || arg === "--help") {
+      args.help = true;
+    } else if (arg === "--option") {
+      parseOption(argv[++i], args.options);
+    } else if (arg === "--compact") {
+      args.compact = true;
+    } else if (arg === "--format") {
+      args.format = parseFormat(argv[++i]);
+    } else if (arg === "--size") {
+      args.size = parseSize(argv[++i]);
+    } else if (arg === "--fps") {
+      args.fps = parsePositiveInteger("--fps", argv[++i]);
+    } else if (arg === "--runs") {
+      args.runs = parsePositiveInteger("--runs", argv[++i]);
+    } else if (arg.startsWith("-")) {
+      throw new Error(`Unknown option: ${arg}`);
+    } else if (args.command === undefined) {
+      args.command = arg;
+    } else {
+      args.files.push(arg);
+    }
+  }
+  return args;
+}
+
+function parseOption(
+  assignment: string | undefined,
+  options: Partial<DetectorOptions>
+): void {
+  const [name, value] = (assignment ?? "").split("=");
+  if (!name || value === undefined) {
+    throw new Error("--option expects <name>=<value>");
+  }
+  if (!isDetectorOptionName(name)) {
+    throw new Error(`Unknown detector option: ${name}`);
+  }
+  // Range checks happen in the detector, like for any other caller.
+  Object.assign(options, { [name]: parseDetectorOptionValue(name, value) });
+}
+
+function parseFormat(value: string | undefined): ExportFormat {
+  const formats: ExportFormat[] = ["json", "csv", "coco", "svg"];
+  const format = formats.find((name) => name === value);
+  if (!format) {
+    throw new Error(`--format expects one of ${formats.join(", ")}`);
+  }
+  return format;
+}
+
+function parseSize(value: string | undefined): {
+  width: number;
+  height: number;
+} {
+  const [width, height] = (value ?? "").split("x");
+  return {
+    width: parsePositiveInteger("--size width", width),
+    height: parsePositiveInteger("--size height", height),
+  };
+}
+
+function parsePositiveInteger(name: string, value: string | undefined): number {
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 1) {
+    throw new Error(`${name} expects a positive integer, got "${value ?? ""}"`);
+  }
+  return number;
+}
+
+async function detect(
+  files: string[],
+  options: Partial<DetectorOptions>,
+  compact: boolean,
+  format: ExportFormat
+): Promise<number> {
+  if ((format === "csv" || format === "svg") && files.length > 1) {
+    throw new Error(`--format ${format} takes a single file`);
+  }
+  const detector = new ShapeDetector(undefined, options);
+  const results: Record<string, DetectionResult> = {};
+  let exitCode = 0;
+
+  for (const file of files) {
+    try {
+      const image = await loadImageFile(file);
+      results[file] = await detector.detectShapes(image);
+    } catch (error) {
+      // Keep going, so one bad file doesn't hide the results for the rest.
+      console.error(`Error processing ${file}: ${(error as Error).message}`);
+      exitCode = 1;
+    }
+  }
+
+  // Points are pixel indices unless a sub-pixel measurement was asked for.
+  const frame =
+    (options.measurement ?? "pixels") === "pixels" ? "pixels" : "canvas";
+  const indent = compact ? undefined : 2;
+  const output = files.length === 1 ? results[files[0]] : results;
+  if (format === "coco") {
+    const images = Object.entries(results).map(([fileName, result]) => ({
+      fileName,
+      result,
+    }));
+    console.log(JSON.stringify(toCoco(images, frame), null, indent));
+  } else if (format === "csv" || format === "svg") {
+    const result = results[files[0]];
+    if (result) {
+      const text =
+        format === "csv" ? toCsv(result, frame) : toSvg(result, frame);
+      process.stdout.write(text);
+    }
+  } else if (output !== undefined) {
+    console.log(JSON.stringify(output, typedArrays, indent));
+  }
+  return exitCode;
+}
+
+// JSON.stringify writes typed arrays (the maps of the debug option) as
+// objects keyed by index, so we write them as plain arrays instead.
+function typedArrays(_key: string, value: unknown): unknown {
+  return ArrayBuffer.isView(value) && !(value instanceof DataView)
+    ? Array.from(value as Uint8Array)
+    : value;
+}
+
+interface TrackedFrame {
+  file: string;
+  time: number; // Seconds from the first frame
+  shapes: DetectionResult["shapes"];
+}
+
+async function track(
+  files: string[],
+  options: Partial<DetectorOptions>,
+  fps: number,
+  compact: boolean
+): Promise<number> {
+  const detector = new ShapeDetector(undefined, options);
+  const tracker = new ShapeTracker();
+  const sorted = [...files].sort((a, b) =>
+    a.localeCompare(b, undefined, { numeric: true })
+  );
+
+  const frames: TrackedFrame[] = [];
+  for (const [index, file] of sorted.entries()) {
+    // A frame we can't read would break the timing of the ones after it,
+    // so unlike 'detect' we stop here.
+    const image = await loadImageFile(file);
+    const result = await detector.detectShapes(image);
+    const time = index / fps;
+    frames.push({ file, time, shapes: tracker.update(result.shapes, time) });
+  }
+
+  const output: { frames: TrackedFrame[]; tracks: TrackStats[] } = {
+    frames,
+    tracks: tracker.stats(),
+  };
+  console.log(JSON.stringify(output, null, compact ? undefined : 2));
+  return 0;
+}
+
+async function main(argv: string[]): Promise<number> {
+  const args = parseArgs(argv);
+
+  if (args.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  if (args.command === "track" && args.files.length > 0) {
+    return track(args.files, args.options, args.fps, args.compact);
+  }
+  if (args.command === "benchmark") {
+    await runBenchmark({
+      ...args.size,
+      runs: args.runs,
+      detector: args.options,
+    });
+    return 0;
+  }
+  if (args.command !== "detect" || args.files.length === 0) {
+    console.error(USAGE);
+    return 2;
+  }
+  return detect(args.files, args.options, args.compact, args.format);
+}
+
+main(process.argv.slice(2)).then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (error) => {
+    console.error((error as Error).message);
+    process.exitCode = 2;
+  }
+);
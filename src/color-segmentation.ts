@@ -0,0 +1,230 @@
+// Color-based segmentation.
+// Instead of collapsing the image to gray and thresholding it, we cluster
+// pixels by color (k-means in CIELAB, where distances roughly match how
+// different two colors look) and give every cluster its own segment ID.
+// Two touching shapes with different fills then end up in different
+// segments, so findBlobs keeps them apart.
+
+import type { SegmentMap } from "./labeling.js";
+import type { RasterImage } from "./shape-detector.js";
+
+export interface ColorSegmentation {
+  // 0 is background (the cluster that covers most of the image border,
+  // plus transparent pixels).
+  segments: SegmentMap;
+  // Average color of each segment as "#rrggbb", indexed by segment ID
+  // (so palette[0] is the background color).
+  palette: string[];
+}
+
+// We run k-means on a sample to keep it fast on big images, then assign
+// every pixel to its nearest center.
+const MAX_SAMPLES = 20000;
+const MAX_ITERATIONS = 20;
+
+type Lab = [number, number, number];
+
+export function segmentByColor(
+  imageData: RasterImage,
+  clusterCount: number,
+  mergeDistance: number
+): ColorSegmentation {
+  const { data, width, height } = imageData;
+  const pixelCount = width * height;
+
+  let opaqueCount = 0;
+  for (let p = 0; p < pixelCount; p++) {
+    if (data[p * 4 + 3] > 128) opaqueCount++;
+  }
+
+  const segments: SegmentMap = {
+    data: new Uint8Array(pixelCount),
+    width,
+    height,
+  };
+  if (opaqueCount === 0) return { segments, palette: [] };
+
+  const labAt = (p: number): Lab =>
+    rgbToLab(data[p * 4], data[p * 4 + 1], data[p * 4 + 2]);
+
+  // --- Cluster a sample of the opaque pixels ---
+  const step = Math.max(1, Math.floor(opaqueCount / MAX_SAMPLES));
+  const samples: Lab[] = [];
+  for (let p = 0, seen = 0; p < pixelCount; p++) {
+    if (data[p * 4 + 3] <= 128) continue;
+    if (seen++ % step === 0) samples.push(labAt(p));
+  }
+
+  let centers = kMeans(samples, Math.min(clusterCount, samples.length));
+  // Asking for more clusters than there are colors splits one color in two.
+  // Merging centers that look alike undoes that.
+  centers = mergeCloseCenters(centers, mergeDistance);
+
+  // --- Assign every pixel, and collect stats per cluster ---
+  const assignment = new Int32Array(pixelCount).fill(-1);
+  const borderCounts = new Array(centers.length).fill(0);
+  const rgbSums = centers.map(() => [0, 0, 0, 0]);
+  // A photo repeats the same colors over and over, so we remember the
+  // cluster of every color we have seen (as cluster + 1; 0 = not seen yet)
+  // instead of converting it to CIELAB again.
+  const clusterOfColor = new Uint8Array(1 << 24);
+
+  for (let p = 0; p < pixelCount; p++) {
+    if (data[p * 4 + 3] <= 128) continue;
+    const rgb = p * 4;
+    const color = (data[rgb] << 16) | (data[rgb + 1] << 8) | data[rgb + 2];
+    let cluster = clusterOfColor[color] - 1;
+    if (cluster < 0) {
+      cluster = nearestCenter(labAt(p), centers);
+      clusterOfColor[color] = cluster + 1;
+    }
+    assignment[p] = cluster;
+
+    const sum = rgbSums[cluster];
+    sum[0] += data[p * 4];
+    sum[1] += data[p * 4 + 1];
+    sum[2] += data[p * 4 + 2];
+    sum[3]++;
+
+    const x = p % width;
+    const y = (p - x) / width;
+    if (x === 0 || y === 0 || x === width - 1 || y === height - 1) {
+      borderCounts[cluster]++;
+    }
+  }
+
+  // The cluster that dominates the border is the background.
+  const background = borderCounts.indexOf(Math.max(...borderCounts));
+
+  // Segment IDs start at 1, skipping the background cluster.
+  const segmentIds: number[] = new Array(centers.length).fill(0);
+  const palette: string[] = [averageColor(rgbSums[background])];
+  for (let c = 0; c < centers.length; c++) {
+    if (c === background) continue;
+    segmentIds[c] = palette.length;
+    palette.push(averageColor(rgbSums[c]));
+  }
+
+  for (let p = 0; p < pixelCount; p++) {
+    const cluster = assignment[p];
+    if (cluster >= 0) segments.data[p] = segmentIds[cluster];
+  }
+  return { segments, palette };
+}
+
+// Standard k-means with k-means++ seeding. The random generator is seeded,
+// so the same image always gives the same clusters.
+function kMeans(points: Lab[], k: number): Lab[] {
+  const random = seededRandom(12345);
+  const centers: Lab[] = [points[Math.floor(random() * points.length)]];
+  const nearestDistance = points.map((p) => squaredDistance(p, centers[0]));
+
+  while (centers.length < k) {
+    const total = nearestDistance.reduce((a, b) => a + b, 0);
+    if (total === 0) break; // Fewer distinct colors than clusters
+    let target = random() * total;
+    let index = 0;
+    while (target > nearestDistance[index] && index < points.length - 1) {
+      target -= nearestDistance[index];
+      index++;
+    }
+    centers.push(points[index]);
+    for (let i = 0; i < points.length; i++) {
+      const d = squaredDistance(points[i], points[index]);
+      if (d < nearestDistance[i]) nearestDistance[i] = d;
+    }
+  }
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    const sums = centers.map(() => [0, 0, 0, 0]);
+    for (const p of points) {
+      const sum = sums[nearestCenter(p, centers)];
+      sum[0] += p[0];
+      sum[1] += p[1];
+      sum[2] += p[2];
+      sum[3]++;
+    }
+
+    let moved = false;
+    for (let c = 0; c < centers.length; c++) {
+      const [l, a, b, n] = sums[c];
+      if (n === 0) continue; // Keep an empty cluster where it was
+      const next: Lab = [l / n, a / n, b / n];
+      if (squaredDistance(next, centers[c]) > 0.01) moved = true;
+      centers[c] = next;
+    }
+    if (!moved) break;
+  }
+  return centers;
+}
+
+function mergeCloseCenters(centers: Lab[], mergeDistance: number): Lab[] {
+  const merged: Lab[] = [];
+  for (const center of centers) {
+    const close = merged.some(
+      (other) => Math.sqrt(squaredDistance(center, other)) < mergeDistance
+    );
+    if (!close) merged.push(center);
+  }
+  return merged;
+}
+
+function nearestCenter(point: Lab, centers: Lab[]): number {
+  let best = 0;
+  let bestDistance = Infinity;
+  for (let c = 0; c < centers.length; c++) {
+    const d = squaredDistance(point, centers[c]);
+    if (d < bestDistance) {
+      bestDistance = d;
+      best = c;
+    }
+  }
+  return best;
+}
+
+function squaredDistance(p: Lab, q: Lab): number {
+  return (p[0] - q[0]) ** 2 + (p[1] - q[1]) ** 2 + (p[2] - q[2]) ** 2;
+}
+
+// Linear light of each sRGB channel value (0-255).
+const SRGB_TO_LINEAR = Float64Array.from({ length: 256 }, (_, c) => {
+  const v = c / 255;
+  return v <= 0.04045 ? v / 12.92 : ((v + 0.055) / 1.055) ** 2.4;
+});
+
+// sRGB (0-255) to CIELAB, using the D65 white point.
+function rgbToLab(r: number, g: number, b: number): Lab {
+  const lr = SRGB_TO_LINEAR[r];
+  const lg = SRGB_TO_LINEAR[g];
+  const lb = SRGB_TO_LINEAR[b];
+
+  const x = (0.4124 * lr + 0.3576 * lg + 0.1805 * lb) / 0.95047;
+  const y = 0.2126 * lr + 0.7152 * lg + 0.0722 * lb;
+  const z = (0.0193 * lr + 0.1192 * lg + 0.9505 * lb) / 1.08883;
+
+  const f = (t: number) => (t > 0.008856 ? Math.cbrt(t) : 7.787 * t + 16 / 116);
+  const fx = f(x);
+  const fy = f(y);
+  const fz = f(z);
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+}
+
+// Turns accumulated [r, g, b, count] sums into a "#rrggbb" string.
+function averageColor([r, g, b, count]: number[]): string {
+  const hex = (v: number) =>
+    Math.round(v / Math.max(count, 1))
+      .toString(16)
+      .padStart(2, "0");
+  return `#${hex(r)}${hex(g)}${hex(b)}`;
+}
+
+// Small deterministic PRNG (mulberry32).
+function seededRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
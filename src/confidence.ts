@@ -0,0 +1,38 @@
+// Confidence scores from how well a shape fits its class.
+// Two things make a detection doubtful: the outline doesn't follow the
+// fitted shape closely, or the shape only just made it into its class (it
+// was nearly called something else). We score both and multiply them.
+
+export interface ConfidenceFeatures {
+  // RMS distance in pixels between the contour and the fitted outline
+  // (polygon, circle or ellipse)...
+  fitError: number;
+  // ...and the error at which the fit would count as poor.
+  fitTolerance: number;
+  // How far the shape is from each competing class, from 0 (right at the
+  // boundary) to 1 (clearly clear of it). See classMargin.
+  margins: number[];
+}
+
+// A contour traced on the pixel grid is off by about 1/sqrt(12) pixels RMS
+// even for a perfect shape, so only the error beyond that counts.
+const PIXEL_GRID_ERROR = 1 / Math.sqrt(12);
+
+// The fit score falls off smoothly with the error: about 0.94 at a quarter
+// of the tolerance, 0.78 at half of it and 0.37 at the tolerance. The
+// smallest margin then scales it from 1 (clear) down to 0.5 at the class
+// boundary, where the shape is as likely to be the other class.
+export function scoreConfidence(features: ConfidenceFeatures): number {
+  const excessError = Math.max(0, features.fitError - PIXEL_GRID_ERROR);
+  const relativeError = excessError / features.fitTolerance;
+  const fit = Math.exp(-relativeError * relativeError);
+  const margin = Math.min(1, ...features.margins);
+  return fit * (0.5 + 0.5 * margin);
+}
+
+// Margin of a measurement that passed a class test: how far past the
+// boundary it is, in units of 'scale', clamped to [0, 1].
+export function classMargin(distance: number, scale: number): number {
+  if (scale <= 0) return 1;
+  return Math.min(1, Math.max(0, distance / scale));
+}
@@ -0,0 +1,173 @@
+// Anti-aliasing-aware measurement of a blob.
+// A rendered shape does not stop at a pixel edge: pixels on a slanted or
+// curved edge are only partly covered and come out as a blend of the shape
+// color and the background color. Thresholding rounds each of those to 0 or
+// 1, which biases the area (and the center and box a little) depending on
+// the edge angle. Here we weight every edge pixel by how far its color lies
+// between the background and the shape color instead.
+
+import type { Point, RasterImage } from "./shape-detector.js";
+
+export interface CoverageMeasurement {
+  area: number;
+  // Canvas coordinates: pixel (x, y) covers the square from (x, y) to
+  // (x + 1, y + 1), so its center is at (x + 0.5, y + 0.5).
+  center: Point;
+  boundingBox: { x: number; y: number; width: number; height: number };
+}
+
+// Coverage this close to 0 or 1 is pixel noise, not a partly covered pixel.
+const COVERAGE_NOISE = 0.05;
+
+// Measures a blob from its pixels and the ring of pixels around it.
+// 'isInBlob' tells which pixels of 'box' belong to the blob, and
+// 'isBackground' tells which pixels outside the blob may hold part of it
+// (pixels of another shape may not). Returns null when there is no clear
+// contrast between the blob and its surroundings to measure with.
+export function measureCoverage(
+  image: RasterImage,
+  isInBlob: (x: number, y: number) => boolean,
+  box: { x: number; y: number; width: number; height: number },
+  isBackground: (x: number, y: number) => boolean
+): CoverageMeasurement | null {
+  // Work in the bounding box grown by two pixels: one for the fringe of
+  // partly covered pixels, one more for a ring of clean background.
+  const left = box.x - 2;
+  const top = box.y - 2;
+  const width = box.width + 4;
+  const height = box.height + 4;
+  const inBlob = new Uint8Array(width * height);
+  for (let y = 2; y < height - 2; y++) {
+    for (let x = 2; x < width - 2; x++) {
+      if (isInBlob(x + left, y + top)) inBlob[y * width + x] = 1;
+    }
+  }
+
+  // Distance (in 8-neighbor steps, up to 2) from the blob, for pixels
+  // outside it. 0 inside the blob.
+  const ring = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (inBlob[y * width + x]) continue;
+      let nearest = 3;
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+          if (inBlob[ny * width + nx]) {
+            nearest = Math.min(nearest, Math.max(Math.abs(dx), Math.abs(dy)));
+          }
+        }
+      }
+      ring[y * width + x] = nearest;
+    }
+  }
+
+  const colorAt = (x: number, y: number): number[] => {
+    const i = ((y + top) * image.width + (x + left)) * 4;
+    return [image.data[i], image.data[i + 1], image.data[i + 2]];
+  };
+  const insideImage = (x: number, y: number) =>
+    x + left >= 0 &&
+    y + top >= 0 &&
+    x + left < image.width &&
+    y + top < image.height;
+
+  // A blob pixel is interior when all 8 neighbors are in the blob too.
+  // Interior pixels give the shape color, the outer ring the background.
+  const isInterior = (x: number, y: number): boolean => {
+    for (let dy = -1; dy <= 1; dy++) {
+      for (let dx = -1; dx <= 1; dx++) {
+        if (!inBlob[(y + dy) * width + (x + dx)]) return false;
+      }
+    }
+    return true;
+  };
+
+  const shapeSum = [0, 0, 0];
+  let shapeCount = 0;
+  const backgroundSum = [0, 0, 0];
+  let backgroundCount = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      if (!insideImage(x, y)) continue;
+      const i = y * width + x;
+      let target: number[] | null = null;
+      if (inBlob[i] && isInterior(x, y)) {
+        target = shapeSum;
+        shapeCount++;
+      } else if (ring[i] === 2 && isBackground(x + left, y + top)) {
+        target = backgroundSum;
+        backgroundCount++;
+      }
+      if (!target) continue;
+      const color = colorAt(x, y);
+      for (let c = 0; c < 3; c++) target[c] += color[c];
+    }
+  }
+  if (shapeCount === 0 || backgroundCount === 0) return null;
+
+  const shapeColor = shapeSum.map((v) => v / shapeCount);
+  const backgroundColor = backgroundSum.map((v) => v / backgroundCount);
+  const contrast = shapeColor.map((v, c) => v - backgroundColor[c]);
+  const contrastSquared = contrast.reduce((sum, v) => sum + v * v, 0);
+  // Less than ~10 gray levels apart: coverage would be mostly noise.
+  if (contrastSquared < 100) return null;
+
+  // Coverage of a pixel: where its color falls on the line from the
+  // background color (0) to the shape color (1).
+  const coverageAt = (x: number, y: number): number => {
+    const color = colorAt(x, y);
+    let t = 0;
+    for (let c = 0; c < 3; c++) {
+      t += (color[c] - backgroundColor[c]) * contrast[c];
+    }
+    t /= contrastSquared;
+    if (t < COVERAGE_NOISE) return 0;
+    if (t > 1 - COVERAGE_NOISE) return 1;
+    return t;
+  };
+
+  let area = 0;
+  let sumX = 0;
+  let sumY = 0;
+  let minX = Infinity,
+    minY = Infinity,
+    maxX = -Infinity,
+    maxY = -Infinity;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      if (!insideImage(x, y)) continue;
+      const i = y * width + x;
+      let weight: number;
+      if (inBlob[i]) {
+        weight = isInterior(x, y) ? 1 : coverageAt(x, y);
+      } else if (ring[i] === 1 && isBackground(x + left, y + top)) {
+        weight = coverageAt(x, y);
+      } else {
+        continue;
+      }
+      if (weight === 0) continue;
+
+      const px = x + left;
+      const py = y + top;
+      area += weight;
+      sumX += weight * (px + 0.5);
+      sumY += weight * (py + 0.5);
+      // A pixel covered by 'weight' pushes the edge that far into it from
+      // the shape's side. On the outermost pixels that is the real edge.
+      minX = Math.min(minX, px + 1 - weight);
+      maxX = Math.max(maxX, px + weight);
+      minY = Math.min(minY, py + 1 - weight);
+      maxY = Math.max(maxY, py + weight);
+    }
+  }
+  if (area === 0) return null;
+
+  return {
+    area,
+    center: { x: sumX / area, y: sumY / area },
+    boundingBox: { x: minX, y: minY, width: maxX - minX, height: maxY - minY },
+  };
+}
@@ -0,0 +1,214 @@
+// Shows what each stage of the pipeline produced (the debug option, see
+// detection-debug.ts), one stage at a time: the segment map, the blobs of
+// the label map, every traced contour colored by what became of its blob,
+// and a table with each blob's measurements and why it was rejected.
+
+import type { BlobDebug, DetectionDebug } from "./detection-debug.js";
+
+export type DebugStage = "mask" | "labels" | "contours" | "blobs";
+
+const OUTCOME_COLORS: Record<BlobDebug["outcome"], string> = {
+  shape: "#52c41a",
+  split: "#1890ff",
+  rejected: "#ff4d4f",
+};
+
+const REJECTION_TEXT: Record<NonNullable<BlobDebug["rejection"]>, string> = {
+  area: "smaller than minBlobArea",
+  "contour-length": "contour shorter than minContourLength",
+  "too-few-corners": "not round, fewer than 3 corners",
+  "too-many-corners": "not round or a star, more than maxPolygonSides",
+  concave: "concave (below minPolygonSolidity)",
+};
+
+export class DebugView {
+  private container: HTMLDivElement;
+  private debug: DetectionDebug | null = null;
+  private stage: DebugStage = "mask";
+  private highlighted: number | null = null; // Blob ID
+
+  constructor(container: HTMLDivElement) {
+    this.container = container;
+  }
+
+  // Shows a new result's stages, or an empty panel for undefined (the
+  // detection ran without the debug option).
+  show(debug: DetectionDebug | undefined): void {
+    this.debug = debug ?? null;
+    this.highlighted = null;
+    this.render();
+  }
+
+  clear(): void {
+    this.show(undefined);
+  }
+
+  setStage(stage: DebugStage): void {
+    this.stage = stage;
+    this.render();
+  }
+
+  private render(): void {
+    const { debug } = this;
+    if (!debug) {
+      this.container.innerHTML =
+        "<p>Turn on debug mode and run a detection to see its stages.</p>";
+      return;
+    }
+    this.container.innerHTML = "";
+    if (debug.scale !== 1) {
+      const note = document.createElement("p");
+      note.textContent =
+        `Multi-scale: these are the stages of the image ` +
+        `downscaled ${debug.scale}x.`;
+      this.container.appendChild(note);
+    }
+    if (this.stage === "blobs") {
+      this.container.appendChild(this.blobTable(debug));
+      return;
+    }
+    const canvas = document.createElement("canvas");
+    canvas.className = "debug-canvas";
+    canvas.width = debug.width;
+    canvas.height = debug.height;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("Could not get canvas context");
+    if (this.stage === "mask") {
+      ctx.putImageData(this.maskImage(debug), 0, 0);
+    } else if (this.stage === "labels") {
+      ctx.putImageData(this.labelImage(debug), 0, 0);
+    } else {
+      // The contours go over a faded mask, so we can see what was traced.
+      ctx.putImageData(this.maskImage(debug), 0, 0);
+      ctx.fillStyle = "rgba(0, 0, 0, 0.6)";
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      this.drawContours(ctx, debug);
+    }
+    this.container.appendChild(canvas);
+  }
+
+  // Background black, segment 1 (all shapes, with threshold segmentation)
+  // white, and every other color segment a hue of its own.
+  private maskImage(debug: DetectionDebug): ImageData {
+    return paint(debug, debug.mask, (segment) =>
+      segment === 1 ? [255, 255, 255] : idColor(segment)
+    );
+  }
+
+  // Background black, every blob a color of its own.
+  private labelImage(debug: DetectionDebug): ImageData {
+    return paint(debug, debug.labels, idColor);
+  }
+
+  private drawContours(
+    ctx: CanvasRenderingContext2D,
+    debug: DetectionDebug
+  ): void {
+    const unit = Math.max(1, debug.width / 600);
+    for (const blob of debug.blobs) {
+      if (!blob.contour) continue;
+      const bold = blob.id === this.highlighted;
+      ctx.strokeStyle = OUTCOME_COLORS[blob.outcome];
+      ctx.lineWidth = (bold ? 3 : 1) * unit;
+      ctx.beginPath();
+      // Contour points are pixel indices; we draw through pixel centers.
+      blob.contour.forEach((p, i) => {
+        if (i === 0) ctx.moveTo(p.x + 0.5, p.y + 0.5);
+        else ctx.lineTo(p.x + 0.5, p.y + 0.5);
+      });
+      ctx.closePath();
+      ctx.stroke();
+    }
+  }
+
+  // Every blob that got as far as contour tracing. The ones that were too
+  // small are only counted: noise makes thousands of them.
+  private blobTable(debug: DetectionDebug): HTMLElement {
+    const traced = debug.blobs.filter((blob) => blob.rejection !== "area");
+    const small = debug.blobs.length - traced.length;
+    const rows = traced
+      .map(
+        (blob) => `
+          <tr class="debug-blob" data-id="${blob.id}">
+            <td>${blob.id}</td>
+            <td>
+              ${blob.area}${blob.outlined ? ` (${blob.enclosedArea})` : ""}
+            </td>
+            <td>${blob.contour?.length ?? "-"}</td>
+            <td>${blob.vertexCount ?? "-"}</td>
+            <td>${blob.circularity?.toFixed(3) ?? "-"}</td>
+            <td style="color: ${OUTCOME_COLORS[blob.outcome]}">
+              ${this.describeOutcome(blob)}
+            </td>
+          </tr>
+        `
+      )
+      .join("");
+
+    const wrapper = document.createElement("div");
+    wrapper.innerHTML = `
+      <p>${debug.blobs.length} blobs, ${small} of them smaller than
+        minBlobArea (not listed). Click a row to see its contour.</p>
+      <table class="debug-table">
+        <tr>
+          <th>Blob</th><th>Area (enclosed)</th><th>Contour</th>
+          <th>Corners</th><th>Circularity</th><th>Outcome</th>
+        </tr>
+        ${rows}
+      </table>
+    `;
+    wrapper
+      .querySelectorAll<HTMLTableRowElement>(".debug-blob")
+      .forEach((row) => {
+        row.addEventListener("click", () => {
+          this.highlighted = Number(row.dataset.id);
+          this.setStage("contours");
+        });
+      });
+    return wrapper;
+  }
+
+  private describeOutcome(blob: BlobDebug): string {
+    if (blob.outcome === "shape") return "shape";
+    if (blob.outcome === "split") return `split into ${blob.shapeCount}`;
+    const reason = blob.rejection ? REJECTION_TEXT[blob.rejection] : "";
+    return `rejected: ${reason}`;
+  }
+}
+
+// An image of a map, with pixels of value 0 black and the rest colored.
+function paint(
+  debug: DetectionDebug,
+  values: ArrayLike<number>,
+  color: (value: number) => [number, number, number]
+): ImageData {
+  const image = new ImageData(debug.width, debug.height);
+  const colors = new Map<number, [number, number, number]>();
+  for (let i = 0; i < values.length; i++) {
+    const value = values[i];
+    if (value !== 0) {
+      let rgb = colors.get(value);
+      if (!rgb) {
+        rgb = color(value);
+        colors.set(value, rgb);
+      }
+      image.data[i * 4] = rgb[0];
+      image.data[i * 4 + 1] = rgb[1];
+      image.data[i * 4 + 2] = rgb[2];
+    }
+    image.data[i * 4 + 3] = 255;
+  }
+  return image;
+}
+
+// A bright color for an ID. Stepping the hue by the golden ratio keeps
+// neighboring IDs far apart in color.
+function idColor(id: number): [number, number, number] {
+  const turns = id * 0.618034;
+  const hue = (turns - Math.floor(turns)) * 6;
+  const channel = (n: number) => {
+    const k = (n + hue) % 6;
+    return Math.round(255 * (1 - Math.max(0, Math.min(k, 4 - k, 1))));
+  };
+  return [channel(5), channel(3), channel(1)];
+}
@@ -0,0 +1,49 @@
+// What each stage of the pipeline produced, for finding out why a shape was
+// missed or misclassified. detectShapes returns this as 'debug' when the
+// debug option is set: the segment map (step 1), the label map (step 2),
+// and for every blob the contour it traced and what became of it (steps
+// 3-6).
+
+import type { PixelBox } from "./geometry.js";
+import type { Point } from "./shape-detector.js";
+
+// Why a blob produced no shape.
+export type BlobRejection =
+  | "area" // Smaller than minBlobArea
+  | "contour-length" // Contour shorter than minContourLength
+  | "too-few-corners" // Not round, and RDP left fewer than 3 corners
+  | "too-many-corners" // Not round, not a star, more than maxPolygonSides
+  | "concave"; // Polygon below minPolygonSolidity (and splitting didn't help)
+
+export interface BlobDebug {
+  id: number; // Its label in 'labels'
+  segment: number; // Its value in 'mask'
+  area: number; // Pixels
+  enclosedArea: number; // Pixels, holes included
+  outlined: boolean; // Treated as an outline-only shape
+  boundingBox: PixelBox;
+  center: Point;
+  // Only for blobs that got as far as contour tracing.
+  contour?: Point[];
+  vertexCount?: number; // Corners RDP found
+  circularity?: number; // Polsby-Popper, 1 for a perfect circle
+  // "shape": classified whole. "split": cut into the shapes it merged.
+  outcome: "shape" | "split" | "rejected";
+  rejection?: BlobRejection; // Set when the outcome is "rejected"
+  shapeCount: number; // Shapes the blob produced
+}
+
+export interface DetectionDebug {
+  // The size of the maps. In multiScale mode they are of the downscaled
+  // image, and 'scale' is the number of image pixels per map pixel;
+  // otherwise 'scale' is 1.
+  width: number;
+  height: number;
+  scale: number;
+  // Segment map, one byte per pixel: 0 is background, anything else the
+  // segment (1 for threshold segmentation, the color cluster otherwise).
+  mask: Uint8Array;
+  // Label map: the blob ID of each pixel, 0 for background.
+  labels: Int32Array;
+  blobs: BlobDebug[];
+}
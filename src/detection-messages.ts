@@ -0,0 +1,20 @@
+// Messages between DetectionWorker (detection-worker.ts, main thread) and
+// the worker script (detection.worker.ts).
+
+import type { DetectorOptions } from "./detector-options.js";
+import type { DetectionProgress, DetectionResult } from "./shape-detector.js";
+
+// The pixels travel as a transferred buffer, so they are moved to the
+// worker instead of copied.
+export interface DetectionRequest {
+  id: number;
+  pixels: ArrayBuffer;
+  width: number;
+  height: number;
+  options: Partial<DetectorOptions>;
+}
+
+export type DetectionResponse =
+  | { id: number; type: "progress"; progress: DetectionProgress }
+  | { id: number; type: "result"; result: DetectionResult }
+  | { id: number; type: "error"; message: string };
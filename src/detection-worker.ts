@@ -0,0 +1,151 @@
+// Runs shape detection in a Web Worker (detection.worker.ts).
+// ShapeDetector does all its work synchronously, so on the main thread a
+// large image freezes the page until it is done. DetectionWorker has the
+// same detectShapes method, but the work happens in the worker, progress
+// comes back as messages, and an AbortSignal stops it.
+
+import {
+  resolveDetectorOptions,
+  validateDetectorOptions,
+} from "./detector-options.js";
+import type { DetectorOptions } from "./detector-options.js";
+import { ShapeDetector } from "./shape-detector.js";
+import type {
+  DetectionControl,
+  DetectionResult,
+  RasterImage,
+} from "./shape-detector.js";
+import type {
+  DetectionRequest,
+  DetectionResponse,
+} from "./detection-messages.js";
+
+export class DetectionWorker {
+  private options: Partial<DetectorOptions>;
+  private worker: Worker | null = null;
+  private nextId = 1;
+  // Detections run one at a time; each one waits for the one before it.
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(options?: Partial<DetectorOptions>) {
+    this.options = { ...options };
+    validateDetectorOptions(this.options);
+  }
+
+  /**
+   * Same as ShapeDetector.detectShapes, but off the main thread.
+   * The image's pixel buffer is transferred to the worker, not copied, so
+   * the caller's copy is empty afterwards.
+   */
+  detectShapes(
+    imageData: RasterImage,
+    overrides?: Partial<DetectorOptions>,
+    control?: DetectionControl
+  ): Promise<DetectionResult> {
+    const run = this.queue.then(() =>
+      this.run(imageData, { ...this.options, ...overrides }, control)
+    );
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  // Same as ShapeDetector.getOptions.
+  getOptions(): DetectorOptions {
+    return resolveDetectorOptions(this.options);
+  }
+
+  // Stops the worker. The next detection starts a new one.
+  terminate(): void {
+    this.worker?.terminate();
+    this.worker = null;
+  }
+
+  private run(
+    imageData: RasterImage,
+    options: Partial<DetectorOptions>,
+    control?: DetectionControl
+  ): Promise<DetectionResult> {
+    const signal = control?.signal;
+    if (signal?.aborted) return Promise.reject(signal.reason);
+
+    // Without worker support (older browsers, Node) we detect in place.
+    if (typeof Worker === "undefined") {
+      return new ShapeDetector(undefined, options).detectShapes(
+        imageData,
+        undefined,
+        control
+      );
+    }
+
+    const worker = this.getWorker();
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      const cleanUp = () => {
+        worker.removeEventListener("message", onMessage);
+        worker.removeEventListener("error", onError);
+        signal?.removeEventListener("abort", onAbort);
+      };
+      const onMessage = (event: MessageEvent<DetectionResponse>) => {
+        const response = event.data;
+        if (response.id !== id) return;
+        if (response.type === "progress") {
+          control?.onProgress?.(response.progress);
+          return;
+        }
+        cleanUp();
+        if (response.type === "result") resolve(response.result);
+        else reject(new Error(response.message));
+      };
+      const onError = (event: ErrorEvent) => {
+        cleanUp();
+        this.terminate();
+        reject(new Error(event.message));
+      };
+      // The worker is busy in synchronous code and would only read a
+      // "cancel" message once it's done, so we stop it instead.
+      const onAbort = () => {
+        cleanUp();
+        this.terminate();
+        reject(signal!.reason);
+      };
+
+      worker.addEventListener("message", onMessage);
+      worker.addEventListener("error", onError);
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      const pixels = transferableBuffer(imageData.data);
+      const request: DetectionRequest = {
+        id,
+        pixels,
+        width: imageData.width,
+        height: imageData.height,
+        options,
+      };
+      worker.postMessage(request, [pixels]);
+    });
+  }
+
+  private getWorker(): Worker {
+    if (!this.worker) {
+      this.worker = new Worker(
+        new URL("./detection.worker.ts", import.meta.url),
+        { type: "module" }
+      );
+    }
+    return this.worker;
+  }
+}
+
+// The pixels as a buffer we can hand over to the worker. Only a whole,
+// unshared buffer can be transferred; anything else we copy first.
+function transferableBuffer(data: Uint8ClampedArray): ArrayBuffer {
+  const buffer = data.buffer;
+  if (
+    buffer instanceof ArrayBuffer &&
+    data.byteOffset === 0 &&
+    data.byteLength === buffer.byteLength
+  ) {
+    return buffer;
+  }
+  return data.slice().buffer;
+}
@@ -0,0 +1,45 @@
+// Worker script: runs ShapeDetector off the main thread, so the page keeps
+// painting (and can show progress) while a large image is processed.
+// Started by DetectionWorker, see detection-worker.ts.
+
+import { ShapeDetector } from "./shape-detector.js";
+import type {
+  DetectionRequest,
+  DetectionResponse,
+} from "./detection-messages.js";
+
+// Blobs are reported one by one, which is thousands of messages on a noisy
+// image. We only pass on steps of at least this much.
+const PROGRESS_STEP = 0.01;
+
+const reply = (response: DetectionResponse, transfer: Transferable[] = []) =>
+  self.postMessage(response, { transfer });
+
+self.addEventListener("message", async (event: MessageEvent) => {
+  const request = event.data as DetectionRequest;
+  const image = {
+    data: new Uint8ClampedArray(request.pixels),
+    width: request.width,
+    height: request.height,
+  };
+
+  let reported = -Infinity;
+  try {
+    const detector = new ShapeDetector(undefined, request.options);
+    const result = await detector.detectShapes(image, undefined, {
+      onProgress: (progress) => {
+        if (progress.progress - reported < PROGRESS_STEP) return;
+        reported = progress.progress;
+        reply({ id: request.id, type: "progress", progress });
+      },
+    });
+    // The debug maps can be many megabytes, so we move them, not copy them.
+    const debug = result.debug;
+    reply(
+      { id: request.id, type: "result", result },
+      debug ? [debug.mask.buffer, debug.labels.buffer] : []
+    );
+  } catch (error) {
+    reply({ id: request.id, type: "error", message: String(error) });
+  }
+});
@@ -0,0 +1,284 @@
+// Tuning knobs for ShapeDetector.
+// The defaults are the values we tuned by hand against the bundled test
+// images (see the comments in shape-detector.ts). Other image sets will
+// usually want different values, so every one of them can be overridden.
+
+import type { AdaptiveMethod, Polarity, ThresholdMode } from "./threshold.js";
+
+export interface DetectorOptions {
+  /** "threshold" (gray levels) or "color" (k-means clusters). Default: "threshold". */
+  segmentation: "threshold" | "color";
+  /** Number of k-means color clusters, background included. Default: 6. */
+  colorClusters: number;
+  /** Clusters closer than this (CIELAB distance) are merged. Default: 12. */
+  colorMergeDistance: number;
+  /** How the binarize threshold is chosen. Default: "fixed". */
+  thresholdMode: ThresholdMode;
+  /** Gray level (0-255) used by the "fixed" mode. Default: 128. */
+  threshold: number;
+  /** Whether shapes are darker or lighter than the background. Default: "auto". */
+  polarity: Polarity | "auto";
+  /** Local window used by the "adaptive" mode. Default: "mean". */
+  adaptiveMethod: AdaptiveMethod;
+  /** Size in pixels (odd) of the adaptive window. Default: 31. */
+  adaptiveWindowSize: number;
+  /** How far a pixel must stand out from its local mean. Default: 10. */
+  adaptiveOffset: number;
+  /**
+   * A blob is outline-only when more than this fraction of the area it
+   * encloses is empty background. Default: 0.5.
+   */
+  outlineHoleRatio: number;
+  /** Try to split blobs we can't classify into touching shapes. Default: true. */
+  splitOverlapping: boolean;
+  /**
+   * How far (as a fraction of its height) a distance-transform peak must rise
+   * above the saddle to a taller one to count as a separate shape. Default: 0.15.
+   */
+  splitMinProminence: number;
+  /** Blobs with fewer pixels than this are treated as noise. Default: 350. */
+  minBlobArea: number;
+  /** Contours with fewer points than this are ignored. Default: 20. */
+  minContourLength: number;
+  /**
+   * When not 0, minBlobArea and minContourLength are sizes on an image this
+   * many pixels along its longer side, and scale with the real image: areas
+   * with the square of the size ratio, contour lengths with the ratio. 0
+   * keeps them in plain pixels. Default: 0.
+   */
+  referenceImageSize: number;
+  /**
+   * Detect large images on a downscaled copy first, then refine every shape
+   * on full-resolution tiles. Tiles the copy found nothing in are detected
+   * at full resolution, but a thin or small shape in a tile with other
+   * shapes can be lost. Default: false.
+   */
+  multiScale: boolean;
+  /** multiScale: the image is halved until its longer side is at most this. Default: 1024. */
+  pyramidMaxSize: number;
+  /** multiScale: side in pixels of the tiles shapes are refined on. Default: 1024. */
+  tileSize: number;
+  /** Ramer-Douglas-Peucker tolerance in pixels. Default: 2.0. */
+  simplifyEpsilon: number;
+  /** First/last RDP vertices closer than this are merged into one. Default: 10. */
+  closedLoopMergeDistance: number;
+  /** Circularity (0-1) above which a blob is a circle. Default: 0.88. */
+  circularityThreshold: number;
+  /**
+   * How closely (RMS error, as a fraction of the semi-minor axis) the contour
+   * must follow a fitted ellipse to be called an ellipse or circle. Default: 0.015.
+   */
+  ellipseFitTolerance: number;
+  /** Ellipses with a minor/major axis ratio of at least this are circles. Default: 0.9. */
+  circleAxisRatio: number;
+  /** A star's inner/outer radius ratio must be below this. Default: 0.7. */
+  starRadiusRatio: number;
+  /** Polygons with more sides than this are left unclassified. Default: 12. */
+  maxPolygonSides: number;
+  /**
+   * How much of its convex hull a polygon must fill (0-1). Concave outlines
+   * are left to the splitting step. Default: 0.9.
+   */
+  minPolygonSolidity: number;
+  /**
+   * Triangle and quadrilateral subtypes: sides are equal when they differ by
+   * at most this fraction of the longer one. Default: 0.08.
+   */
+  subtypeSideTolerance: number;
+  /**
+   * Triangle and quadrilateral subtypes: angles are right, and edges parallel,
+   * within this many degrees. Default: 5.
+   */
+  subtypeAngleTolerance: number;
+  /**
+   * How area, center and bounding box are measured: "pixels" counts the
+   * thresholded pixels; "coverage" also weights anti-aliased edge pixels by
+   * how much of them the shape covers; "fitted" uses the fitted polygon,
+   * circle or ellipse. Both sub-pixel modes report canvas coordinates
+   * (pixel centers at +0.5). Default: "pixels".
+   */
+  measurement: "pixels" | "coverage" | "fitted";
+  /** Report each shape's traced contour as 'contour'. Default: false. */
+  includeContours: boolean;
+  /**
+   * Return what each pipeline stage produced as 'debug' in the result (see
+   * detection-debug.ts). Default: false.
+   */
+  debug: boolean;
+}
+
+export const DEFAULT_DETECTOR_OPTIONS: Readonly<DetectorOptions> =
+  Object.freeze({
+    segmentation: "threshold",
+    colorClusters: 6,
+    colorMergeDistance: 12,
+    thresholdMode: "fixed",
+    threshold: 128,
+    polarity: "auto",
+    adaptiveMethod: "mean",
+    adaptiveWindowSize: 31,
+    adaptiveOffset: 10,
+    outlineHoleRatio: 0.5,
+    splitOverlapping: true,
+    splitMinProminence: 0.15,
+    minBlobArea: 350,
+    minContourLength: 20,
+    referenceImageSize: 0,
+    multiScale: false,
+    pyramidMaxSize: 1024,
+    tileSize: 1024,
+    simplifyEpsilon: 2.0,
+    closedLoopMergeDistance: 10,
+    circularityThreshold: 0.88,
+    ellipseFitTolerance: 0.015,
+    circleAxisRatio: 0.9,
+    starRadiusRatio: 0.7,
+    maxPolygonSides: 12,
+    minPolygonSolidity: 0.9,
+    subtypeSideTolerance: 0.08,
+    subtypeAngleTolerance: 5,
+    measurement: "pixels",
+    includeContours: false,
+    debug: false,
+  });
+
+// What values each option accepts. Used by validateDetectorOptions.
+type OptionSpec =
+  | { kind: "number"; min: number; max: number; odd?: boolean }
+  | { kind: "choice"; values: readonly string[] }
+  | { kind: "boolean" };
+
+const OPTION_SPECS: Record<keyof DetectorOptions, OptionSpec> = {
+  segmentation: { kind: "choice", values: ["threshold", "color"] },
+  colorClusters: { kind: "number", min: 2, max: 64 },
+  colorMergeDistance: { kind: "number", min: 0, max: Infinity },
+  thresholdMode: { kind: "choice", values: ["fixed", "otsu", "adaptive"] },
+  threshold: { kind: "number", min: 0, max: 255 },
+  polarity: {
+    kind: "choice",
+    values: ["auto", "dark-on-light", "light-on-dark"],
+  },
+  adaptiveMethod: { kind: "choice", values: ["mean", "gaussian"] },
+  adaptiveWindowSize: { kind: "number", min: 3, max: Infinity, odd: true },
+  adaptiveOffset: { kind: "number", min: -255, max: 255 },
+  outlineHoleRatio: { kind: "number", min: 0, max: 1 },
+  splitOverlapping: { kind: "boolean" },
+  splitMinProminence: { kind: "number", min: 0, max: 1 },
+  minBlobArea: { kind: "number", min: 0, max: Infinity },
+  minContourLength: { kind: "number", min: 0, max: Infinity },
+  referenceImageSize: { kind: "number", min: 0, max: Infinity },
+  multiScale: { kind: "boolean" },
+  pyramidMaxSize: { kind: "number", min: 16, max: Infinity },
+  tileSize: { kind: "number", min: 64, max: Infinity },
+  simplifyEpsilon: { kind: "number", min: 0, max: Infinity },
+  closedLoopMergeDistance: { kind: "number", min: 0, max: Infinity },
+  circularityThreshold: { kind: "number", min: 0, max: 1 },
+  ellipseFitTolerance: { kind: "number", min: 0, max: 1 },
+  circleAxisRatio: { kind: "number", min: 0, max: 1 },
+  starRadiusRatio: { kind: "number", min: 0, max: 1 },
+  maxPolygonSides: { kind: "number", min: 3, max: Infinity },
+  minPolygonSolidity: { kind: "number", min: 0, max: 1 },
+  subtypeSideTolerance: { kind: "number", min: 0, max: 1 },
+  subtypeAngleTolerance: { kind: "number", min: 0, max: 45 },
+  measurement: { kind: "choice", values: ["pixels", "coverage", "fitted"] },
+  includeContours: { kind: "boolean" },
+  debug: { kind: "boolean" },
+};
+
+export function isDetectorOptionName(
+  name: string
+): name is keyof DetectorOptions {
+  return Object.prototype.hasOwnProperty.call(OPTION_SPECS, name);
+}
+
+// Converts a raw string (from the command line, a form field, ...) into
+// the value type the option expects. Validation still happens later.
+export function parseDetectorOptionValue(
+  name: keyof DetectorOptions,
+  raw: string
+): string | number | boolean {
+  const kind = OPTION_SPECS[name].kind;
+  if (kind === "number") return Number(raw);
+  if (kind === "boolean")
+    return raw === "true" ? true : raw === "false" ? false : raw;
+  return raw;
+}
+
+// Throws if any option is unknown, has the wrong type, or is out of range.
+export function validateDetectorOptions(
+  options: Partial<DetectorOptions>
+): void {
+  for (const [name, value] of Object.entries(options)) {
+    if (!isDetectorOptionName(name)) {
+      throw new TypeError(`Unknown detector option: ${name}`);
+    }
+    if (value === undefined) continue; // Left unset, the default applies
+
+    const spec = OPTION_SPECS[name];
+    if (spec.kind === "choice") {
+      if (typeof value !== "string" || !spec.values.includes(value)) {
+        throw new TypeError(
+          `Detector option ${name} must be one of ${spec.values.join(", ")}`
+        );
+      }
+      continue;
+    }
+    if (spec.kind === "boolean") {
+      if (typeof value !== "boolean") {
+        throw new TypeError(`Detector option ${name} must be true or false`);
+      }
+      continue;
+    }
+
+    if (typeof value !== "number" || Number.isNaN(value)) {
+      throw new TypeError(`Detector option ${name} must be a number`);
+    }
+    if (value < spec.min || value > spec.max) {
+      throw new RangeError(
+        `Detector option ${name} must be between ${spec.min} and ${spec.max}, got ${value}`
+      );
+    }
+    if (spec.odd && value % 2 !== 1) {
+      throw new RangeError(`Detector option ${name} must be an odd integer`);
+    }
+  }
+}
+
+// The options with minBlobArea and minContourLength converted to pixels of
+// a 'width' x 'height' image (see referenceImageSize).
+export function scaleSizeThresholds(
+  options: DetectorOptions,
+  width: number,
+  height: number
+): DetectorOptions {
+  if (options.referenceImageSize === 0) return options;
+  const ratio = Math.max(width, height) / options.referenceImageSize;
+  return {
+    ...options,
+    minBlobArea: options.minBlobArea * ratio * ratio,
+    minContourLength: options.minContourLength * ratio,
+    referenceImageSize: 0, // Already applied
+  };
+}
+
+// Layers the overrides on top of the base options (defaults first), after
+// validating them.
+export function resolveDetectorOptions(
+  ...overrides: (Partial<DetectorOptions> | undefined)[]
+): DetectorOptions {
+  const resolved: DetectorOptions = { ...DEFAULT_DETECTOR_OPTIONS };
+  for (const override of overrides) {
+    if (!override) continue;
+    validateDetectorOptions(override);
+    Object.assign(resolved, withoutUndefined(override));
+  }
+  return resolved;
+}
+
+function withoutUndefined(
+  options: Partial<DetectorOptions>
+): Partial<DetectorOptions> {
+  return Object.fromEntries(
+    Object.entries(options).filter(([, value]) => value !== undefined)
+  );
+}
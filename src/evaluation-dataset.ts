@@ -0,0 +1,95 @@
+// Where an evaluation gets its images and their ground truth. The bundled
+// test images are one dataset; a folder of images with a ground_truth.json
+// in the same format (see the annotation editor) is another.
+
+import type { GroundTruthData } from "./evaluation-utils.js";
+import { ShapeDetector } from "./shape-detector.js";
+import { getAllTestImageNames, testImages } from "./test-images-data.js";
+
+export interface EvaluationDataset {
+  name: string;
+  // The images to evaluate, in order.
+  imageNames: string[];
+  loadImage(imageName: string): Promise<ImageData>;
+  // Labels for the images, keyed by image name. An image without an entry
+  // counts as having no shapes.
+  loadGroundTruth(): Promise<GroundTruthData>;
+}
+
+let bundledGroundTruth: GroundTruthData | null = null;
+
+// The ground_truth.json served next to the page, for the bundled images.
+export async function loadGroundTruth(): Promise<GroundTruthData> {
+  if (!bundledGroundTruth) {
+    try {
+      const response = await fetch("/ground_truth.json");
+      bundledGroundTruth = (await response.json()) as GroundTruthData;
+    } catch (error) {
+      console.error("Failed to load ground truth data:", error);
+      throw error;
+    }
+  }
+  return bundledGroundTruth;
+}
+
+// The bundled test images (all of them, or the ones named).
+export function testImageDataset(
+  imageNames: string[] = getAllTestImageNames()
+): EvaluationDataset {
+  return {
+    name: "Test images",
+    imageNames,
+    async loadImage(imageName) {
+      const dataUrl = testImages[imageName as keyof typeof testImages];
+      if (!dataUrl) throw new Error(`No test image named ${imageName}`);
+      const response = await fetch(dataUrl);
+      const blob = await response.blob();
+      return decodeImage(
+        new File([blob], imageName, { type: "image/svg+xml" })
+      );
+    },
+    loadGroundTruth,
+  };
+}
+
+// Image files labeled by a ground truth object, matched by file name.
+export function fileDataset(
+  name: string,
+  files: File[],
+  groundTruth: GroundTruthData
+): EvaluationDataset {
+  const byName = new Map(files.map((file) => [file.name, file]));
+  return {
+    name,
+    imageNames: [...byName.keys()],
+    async loadImage(imageName) {
+      const file = byName.get(imageName);
+      if (!file) throw new Error(`No image file named ${imageName}`);
+      return decodeImage(file);
+    },
+    loadGroundTruth: async () => groundTruth,
+  };
+}
+
+// A dataset from files picked together: the images, and the one JSON file
+// among them as their ground truth.
+export async function datasetFromFiles(
+  files: File[]
+): Promise<EvaluationDataset> {
+  const labels = files.filter((file) => file.name.endsWith(".json"));
+  if (labels.length !== 1) {
+    throw new Error("Pick one ground truth JSON file along with the images");
+  }
+  const groundTruth = JSON.parse(await labels[0].text()) as GroundTruthData;
+  if (!groundTruth.images) {
+    throw new Error(`${labels[0].name} has no "images" entry`);
+  }
+  const images = files.filter((file) => file !== labels[0]);
+  return fileDataset(labels[0].name, images, groundTruth);
+}
+
+// Decodes an image file the way the demo page does, on a canvas of its own.
+function decodeImage(file: File): Promise<ImageData> {
+  const canvas = document.createElement("canvas");
+  return new ShapeDetector(canvas).loadImage(file);
+}
@@ -1,21 +1,29 @@
 
 
-import type { ShapeDetector } from "./main.js";
+import type { CoordinateFrame } from "./pyramid.js";
+import type { Detector, ShapeDetector } from "./shape-detector.js";
+import type { SnapshotView } from "./snapshot-view.js";
 import { ModalManager } from "./ui-utils.js";
 
+// A detector that can say what options it runs with, for the snapshots.
+type ConfiguredDetector = Detector & Pick<ShapeDetector, "getOptions">;
+
 export class EvaluationManager {
-  private detector: ShapeDetector;
+  private detector: ConfiguredDetector;
   private evaluateButton: HTMLButtonElement;
   private evaluationResultsDiv: HTMLDivElement;
+  private snapshotView: SnapshotView | null;
 
   constructor(
-    detector: ShapeDetector,
+    detector: ConfiguredDetector,
     evaluateButton: HTMLButtonElement,
-    evaluationResultsDiv: HTMLDivElement
+    evaluationResultsDiv: HTMLDivElement,
+    snapshotView: SnapshotView | null = null
   ) {
     this.detector = detector;
     this.evaluateButton = evaluateButton;
     this.evaluationResultsDiv = evaluationResultsDiv;
+    this.snapshotView = snapshotView;
   }
 
   async runSelectedEvaluation(selectedImages: string[]): Promise<void> {
@@ -30,11 +38,20 @@ export class EvaluationManager {
       this.evaluateButton.disabled = true;
       this.evaluateButton.textContent = "Evaluating...";
 
-      const evaluationModule = await import("./evaluation.js");
-      const results = await evaluationModule.runSelectedEvaluation(
+      const [evaluationModule, datasetModule] = await Promise.all([
+        import("./evaluation.js"),
+        import("./evaluation-dataset.js"),
+      ]);
+      const results = await evaluationModule.runEvaluation(
+        datasetModule.testImageDataset(selectedImages),
         this.detector,
-        selectedImages
+        undefined,
+        (completed, total) => {
+          this.evaluateButton.textContent = `Evaluating... (${completed}/${total})`;
+        },
+        this.frame()
       );
+      this.snapshotView?.setLatest(results, this.detector.getOptions());
 
       ModalManager.showEvaluationModal(results);
 
@@ -54,8 +71,20 @@ export class EvaluationManager {
       this.evaluationResultsDiv.innerHTML =
         "<p>Running comprehensive evaluation...</p>";
 
-      const evaluationModule = await import("./evaluation.js");
-      const results = await evaluationModule.runEvaluation(this.detector);
+      const [evaluationModule, datasetModule] = await Promise.all([
+        import("./evaluation.js"),
+        import("./evaluation-dataset.js"),
+      ]);
+      const results = await evaluationModule.runEvaluation(
+        datasetModule.testImageDataset(),
+        this.detector,
+        undefined,
+        (completed, total) => {
+          this.evaluationResultsDiv.innerHTML = `<p>Running comprehensive evaluation... (${completed}/${total})</p>`;
+        },
+        this.frame()
+      );
+      this.snapshotView?.setLatest(results, this.detector.getOptions());
 
       evaluationModule.displayEvaluationResults(
         results,
@@ -70,4 +99,46 @@ export class EvaluationManager {
       this.evaluateButton.disabled = false;
     }
   }
+
+  // Evaluates a dataset of our own: image files picked together with the
+  // ground truth JSON that labels them.
+  async runDatasetEvaluation(files: File[]): Promise<void> {
+    try {
+      this.evaluateButton.disabled = true;
+      this.evaluateButton.textContent = "Evaluating...";
+
+      const [evaluationModule, datasetModule] = await Promise.all([
+        import("./evaluation.js"),
+        import("./evaluation-dataset.js"),
+      ]);
+      const dataset = await datasetModule.datasetFromFiles(files);
+      const results = await evaluationModule.runEvaluation(
+        dataset,
+        this.detector,
+        undefined,
+        (completed, total) => {
+          this.evaluateButton.textContent = `Evaluating... (${completed}/${total})`;
+        },
+        this.frame()
+      );
+      this.snapshotView?.setLatest(results, this.detector.getOptions());
+
+      ModalManager.showEvaluationModal(results);
+
+      console.log("Dataset Evaluation Results:", results);
+    } catch (error) {
+      alert(`Error during evaluation: ${error}`);
+      console.error("Evaluation error:", error);
+    } finally {
+      this.evaluateButton.disabled = false;
+      this.evaluateButton.textContent = "Run Selected Evaluation";
+    }
+  }
+
+  // The coordinate frame the detector measures in.
+  private frame(): CoordinateFrame {
+    return this.detector.getOptions().measurement === "pixels"
+      ? "pixels"
+      : "canvas";
+  }
 }
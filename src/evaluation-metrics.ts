@@ -0,0 +1,542 @@
+// Metrics for the evaluation runner (evaluation.ts). Each metric measures
+// every image, then sums up the whole run in a section of its own, stored
+// under its ID in the results. A new metric is one more object in the list
+// given to runEvaluation; the runner and the other metrics don't change.
+
+import type { CoordinateFrame } from "./pyramid.js";
+import type { DetectionResult } from "./shape-detector.js";
+import {
+  buildCalibrationReport,
+  buildConfusionMatrix,
+  calculateMeanAveragePrecision,
+  mergeConfusionMatrices,
+  NO_SHAPE,
+} from "./evaluation-utils.js";
+import { escapeHtml } from "./ui-utils.js";
+import type {
+  CalibrationReport,
+  ConfusionMatrix,
+  EvaluationMetrics,
+  GroundTruthShape,
+  MeanAveragePrecision,
+} from "./evaluation-utils.js";
+
+// What a metric gets to see of one image.
+export interface ImageEvaluation {
+  imageName: string;
+  detectionResult: DetectionResult;
+  groundTruth: GroundTruthShape[];
+  // The detections matched to the ground truth (evaluateDetection).
+  evaluation: EvaluationMetrics;
+  frame: CoordinateFrame; // The detections were measured in
+  // Set when the image couldn't be loaded or detected; the detection
+  // result is then empty.
+  error?: string;
+}
+
+export interface EvaluationMetric<ImageSection = unknown, Summary = unknown> {
+  id: string; // The key of its sections in the results
+  name: string;
+  // This metric's section for one image. Metrics that only sum up the run
+  // leave it out.
+  evaluateImage?(image: ImageEvaluation): ImageSection;
+  // This metric's section for the run, from every image and the sections
+  // evaluateImage made for them (in the same order).
+  summarize(images: ImageEvaluation[], sections: ImageSection[]): Summary;
+  // Whether an image passes. An image fails if any metric fails it.
+  passes?(section: ImageSection): boolean;
+  // HTML for the results panel: the run's section, and one image's.
+  render?(summary: Summary): string;
+  renderImage?(section: ImageSection): string;
+  // For comparing runs: whether a number in its sections is better higher
+  // or lower, by its path ("averageF1", or "classes.circle.ap" where an
+  // array holds objects with a 'type'). Numbers it returns null for (and
+  // every number of a metric without it) are shown but not judged.
+  better?(path: string): "higher" | "lower" | null;
+}
+
+export interface ImageScore {
+  score: number; // Out of 100
+  passed: boolean;
+  feedback: string[];
+}
+
+export interface ScoreSummary {
+  totalScore: number;
+  maxScore: number;
+  percentage: number;
+  grade: string;
+  passedCount: number; // Images that scored 60 or more
+}
+
+export interface FalsePositiveSummary {
+  perImage: number; // Mean false positives over all images
+  negativeImages: number; // Images without ground truth
+  perNegativeImage: number; // Mean false positives on those
+  trueNegatives: number; // Negative images where nothing was detected
+}
+
+export interface DetectionSummary {
+  averagePrecision: number;
+  averageRecall: number;
+  averageF1: number;
+  averageIoU: number;
+  totalProcessingTime: number;
+}
+
+// Up to 100 points per image for accuracy, localization, center and area
+// accuracy and speed, and a letter grade for the run.
+export const scoreMetric: EvaluationMetric<ImageScore, ScoreSummary> = {
+  id: "score",
+  name: "Score",
+  evaluateImage(image) {
+    // The results show the error itself.
+    if (image.error) return { score: 0, passed: false, feedback: [] };
+    return calculateScore(image.evaluation, image.detectionResult);
+  },
+  summarize(_images, sections) {
+    const totalScore = sections.reduce((sum, s) => sum + s.score, 0);
+    const maxScore = sections.length * 100;
+    const percentage = maxScore > 0 ? (totalScore / maxScore) * 100 : 0;
+    return {
+      totalScore: Math.round(totalScore),
+      maxScore,
+      percentage: Math.round(percentage * 100) / 100,
+      grade: calculateGrade(percentage),
+      passedCount: sections.filter((s) => s.passed).length,
+    };
+  },
+  passes: (section) => section.passed,
+  better: (path) =>
+    ["score", "passed", "totalScore", "percentage", "passedCount"].includes(
+      path
+    )
+      ? "higher"
+      : null,
+  render(summary) {
+    return `
+      <div class="summary">
+        <h4>Score:</h4>
+        <ul>
+          <li>${summary.totalScore} of ${summary.maxScore} points
+            (${summary.percentage.toFixed(1)}%), grade ${summary.grade}</li>
+          <li>${summary.passedCount} of ${summary.maxScore / 100} images
+            passed</li>
+        </ul>
+      </div>
+    `;
+  },
+  renderImage: (section) =>
+    section.feedback.map((fb) => `<p>${fb}</p>`).join(""),
+};
+
+// Precision, recall and F1 averaged over the images, and IoU over the
+// images that have ground truth.
+export const detectionMetric: EvaluationMetric<never, DetectionSummary> = {
+  id: "detection",
+  name: "Detection",
+  summarize(images) {
+    const average = (
+      of: ImageEvaluation[],
+      value: (e: EvaluationMetrics) => number
+    ) =>
+      of.length > 0
+        ? of.reduce((sum, image) => sum + value(image.evaluation), 0) /
+          of.length
+        : 0;
+    // Empty scenes have no shapes to overlap.
+    const labeled = images.filter((image) => image.groundTruth.length > 0);
+    return {
+      averagePrecision: average(images, (e) => e.precision),
+      averageRecall: average(images, (e) => e.recall),
+      averageF1: average(images, (e) => e.f1_score),
+      averageIoU: average(labeled, (e) => e.average_iou),
+      totalProcessingTime: images.reduce(
+        (sum, image) => sum + image.evaluation.processing_time,
+        0
+      ),
+    };
+  },
+  // Timing changes from run to run on its own, so it isn't judged.
+  better: (path) => (path === "totalProcessingTime" ? null : "higher"),
+  render(summary) {
+    return `
+      <div class="summary">
+        <h4>Summary Metrics:</h4>
+        <ul>
+          <li>Average Precision: ${(summary.averagePrecision * 100).toFixed(
+            1
+          )}%</li>
+          <li>Average Recall: ${(summary.averageRecall * 100).toFixed(1)}%</li>
+          <li>Average F1 Score: ${summary.averageF1.toFixed(3)}</li>
+          <li>Average IoU: ${summary.averageIoU.toFixed(3)}</li>
+          <li>Total Processing Time: ${summary.totalProcessingTime.toFixed(
+            0
+          )}ms</li>
+        </ul>
+      </div>
+    `;
+  },
+};
+
+// False positives per image, over all images and over the negative ones
+// (images with nothing to find), where every detection is a false positive.
+export const falsePositiveMetric: EvaluationMetric<
+  never,
+  FalsePositiveSummary
+> = {
+  id: "false-positives",
+  name: "False Positives",
+  summarize(images) {
+    const negative = images.filter((image) => image.groundTruth.length === 0);
+    const mean = (of: ImageEvaluation[]) =>
+      of.length > 0
+        ? of.reduce((sum, image) => sum + image.evaluation.false_positives, 0) /
+          of.length
+        : 0;
+    return {
+      perImage: mean(images),
+      negativeImages: negative.length,
+      perNegativeImage: mean(negative),
+      trueNegatives: negative.filter((image) => image.evaluation.true_negative)
+        .length,
+    };
+  },
+  better: (path) =>
+    path === "trueNegatives"
+      ? "higher"
+      : path === "negativeImages"
+        ? null
+        : "lower",
+  render(summary) {
+    return `
+      <div class="summary">
+        <h4>False Positives:</h4>
+        <ul>
+          <li>Per image: ${summary.perImage.toFixed(2)}</li>
+          <li>Per negative image: ${summary.perNegativeImage.toFixed(2)}
+            (${summary.negativeImages} images with no shapes,
+            ${summary.trueNegatives} of them with nothing detected)</li>
+        </ul>
+      </div>
+    `;
+  },
+};
+
+// COCO-style mAP over IoU thresholds 0.5 to 0.95, and AP, precision and
+// recall per shape type.
+export const meanAveragePrecisionMetric: EvaluationMetric<
+  never,
+  MeanAveragePrecision
+> = {
+  id: "map",
+  name: "Mean Average Precision",
+  summarize: (images) =>
+    calculateMeanAveragePrecision(
+      images.map((image) => ({
+        detected: image.detectionResult.shapes,
+        groundTruth: image.groundTruth,
+        frame: image.frame,
+      }))
+    ),
+  // Everything but the counts.
+  better: (path) => (/Count$/.test(path) ? null : "higher"),
+  render(summary) {
+    const ap = (value: number | null) =>
+      value === null ? "-" : value.toFixed(3);
+    const rows = summary.classes
+      .map(
+        (c) => `
+          <tr>
+            <td>${escapeHtml(c.type)}</td>
+            <td>${c.groundTruthCount}</td>
+            <td>${c.detectionCount}</td>
+            <td>${ap(c.ap)}</td>
+            <td>${ap(c.ap50)}</td>
+            <td>${(c.precision * 100).toFixed(1)}%</td>
+            <td>${(c.recall * 100).toFixed(1)}%</td>
+          </tr>`
+      )
+      .join("");
+    return `
+      <div class="summary">
+        <h4>Mean Average Precision:</h4>
+        <ul>
+          <li>mAP@[.5:.95]: ${summary.map.toFixed(3)}</li>
+          <li>AP@.5: ${summary.ap50.toFixed(3)}</li>
+          <li>AP@.75: ${summary.ap75.toFixed(3)}</li>
+        </ul>
+        <table class="evaluation-table">
+          <tr>
+            <th>Class</th><th>Ground truth</th><th>Detected</th>
+            <th>AP</th><th>AP@.5</th><th>Precision</th><th>Recall</th>
+          </tr>
+          ${rows}
+        </table>
+      </div>
+    `;
+  },
+};
+
+// Which shape types get detected as which, summed over the images. Unlike
+// the other metrics, detections are paired with ground truth whatever their
+// types, so a pentagon found as a circle shows up as such.
+export const confusionMetric: EvaluationMetric<
+  ConfusionMatrix,
+  ConfusionMatrix
+> = {
+  id: "confusion",
+  name: "Confusion Matrix",
+  evaluateImage: (image) =>
+    buildConfusionMatrix(
+      image.detectionResult.shapes,
+      image.groundTruth,
+      image.frame
+    ),
+  summarize: (_images, sections) => mergeConfusionMatrices(sections),
+  // More on the diagonal is better, more anywhere else worse.
+  better(path) {
+    const [expected, found] = path.split(".");
+    return expected === found ? "higher" : "lower";
+  },
+  render(matrix) {
+    const types = new Set<string>();
+    for (const [expected, row] of Object.entries(matrix)) {
+      types.add(expected);
+      Object.keys(row).forEach((found) => types.add(found));
+    }
+    types.delete(NO_SHAPE);
+    const classes = [...[...types].sort(), NO_SHAPE];
+
+    const rows = classes
+      .map((expected) => {
+        const cells = classes
+          .map((found) => {
+            const count = matrix[expected]?.[found] ?? 0;
+            const kind =
+              count === 0
+                ? ""
+                : expected === found
+                  ? "confusion-correct"
+                  : "confusion-error";
+            return `<td class="${kind}">${count || ""}</td>`;
+          })
+          .join("");
+        return `<tr><th>${escapeHtml(expected)}</th>${cells}</tr>`;
+      })
+      .join("");
+    return `
+      <div class="summary">
+        <h4>Confusion Matrix:</h4>
+        <p>Rows are the ground truth, columns what it was detected as;
+          "${NO_SHAPE}" counts missed shapes and detections of nothing.</p>
+        <table class="evaluation-table confusion-matrix">
+          <tr>
+            <th></th>${classes
+              .map((found) => `<th>${escapeHtml(found)}</th>`)
+              .join("")}
+          </tr>
+          ${rows}
+        </table>
+      </div>
+    `;
+  },
+  renderImage(matrix) {
+    const mistakes: string[] = [];
+    for (const [expected, row] of Object.entries(matrix)) {
+      for (const [found, count] of Object.entries(row)) {
+        if (expected === found) continue;
+        let mistake = `${expected} detected as ${found}`;
+        if (found === NO_SHAPE) mistake = `missed ${expected}`;
+        if (expected === NO_SHAPE) mistake = `spurious ${found}`;
+        mistakes.push(count > 1 ? `${mistake} (${count}x)` : mistake);
+      }
+    }
+    return mistakes
+      .map((mistake) => `<p>✗ ${escapeHtml(mistake)}</p>`)
+      .join("");
+  },
+};
+
+// How well the detection confidences are calibrated, over every detection
+// of the run.
+export const calibrationMetric: EvaluationMetric<never, CalibrationReport> = {
+  id: "calibration",
+  name: "Confidence Calibration",
+  summarize: (images) =>
+    buildCalibrationReport(images.map((image) => image.evaluation)),
+  render: renderCalibration,
+  better: (path) =>
+    path === "expectedCalibrationError"
+      ? "lower"
+      : path === "meanConfidenceAgreement"
+        ? "higher"
+        : null,
+};
+
+// What runEvaluation measures unless told otherwise, in display order.
+export const DEFAULT_METRICS: EvaluationMetric[] = [
+  scoreMetric,
+  detectionMetric,
+  falsePositiveMetric,
+  meanAveragePrecisionMetric,
+  confusionMetric,
+  calibrationMetric,
+];
+
+function calculateScore(
+  evaluation: EvaluationMetrics,
+  detection: DetectionResult
+): ImageScore {
+  const feedback: string[] = [];
+  let score = 0;
+
+  const f1 = evaluation.f1_score;
+  if (f1 >= 0.9) {
+    score += 40;
+    feedback.push(`detection accuracy (F1: ${f1.toFixed(3)})`);
+  } else if (f1 >= 0.7) {
+    score += 30;
+    feedback.push(`detection accuracy (F1: ${f1.toFixed(3)})`);
+  } else if (f1 >= 0.5) {
+    score += 20;
+    feedback.push(`detection accuracy (F1: ${f1.toFixed(3)})`);
+  } else {
+    feedback.push(`detection accuracy (F1: ${f1.toFixed(3)})`);
+  }
+
+  // An empty scene has nothing to locate or measure, so finding nothing
+  // there earns those points too.
+  if (evaluation.true_negative) {
+    score += 50;
+    feedback.push("✓ Correctly found no shapes");
+  } else {
+    score += scoreMeasurements(evaluation, feedback);
+  }
+
+  const processingTime = detection.processingTime;
+  if (processingTime <= 500) {
+    score += 10;
+    feedback.push(`performance (${processingTime.toFixed(0)}ms)`);
+  } else if (processingTime <= 1000) {
+    score += 8;
+    feedback.push(`performance (${processingTime.toFixed(0)}ms)`);
+  } else if (processingTime <= 2000) {
+    score += 5;
+    feedback.push(`performance (${processingTime.toFixed(0)}ms)`);
+  } else {
+    feedback.push(`performance (${processingTime.toFixed(0)}ms)`);
+  }
+
+  const passed = score >= 60;
+  return { passed, feedback, score };
+}
+
+// Points for how well the matched shapes were located and measured.
+function scoreMeasurements(
+  evaluation: EvaluationMetrics,
+  feedback: string[]
+): number {
+  let score = 0;
+
+  const avgIoU = evaluation.average_iou;
+  if (avgIoU >= 0.8) {
+    score += 25;
+    feedback.push(`✓ Excellent localization (IoU: ${avgIoU.toFixed(3)})`);
+  } else if (avgIoU >= 0.6) {
+    score += 20;
+    feedback.push(`✓ Good localization (IoU: ${avgIoU.toFixed(3)})`);
+  } else if (avgIoU >= 0.4) {
+    score += 10;
+    feedback.push(`△ Fair localization (IoU: ${avgIoU.toFixed(3)})`);
+  } else {
+    feedback.push(`✗ Poor localization (IoU: ${avgIoU.toFixed(3)})`);
+  }
+
+  const centerAcc = evaluation.center_point_accuracy;
+  if (centerAcc <= 5) {
+    score += 15;
+    feedback.push(`center accuracy (${centerAcc.toFixed(1)}px error)`);
+  } else if (centerAcc <= 10) {
+    score += 12;
+    feedback.push(`center accuracy (${centerAcc.toFixed(1)}px error)`);
+  } else if (centerAcc <= 20) {
+    score += 8;
+    feedback.push(`center accuracy (${centerAcc.toFixed(1)}px error)`);
+  } else {
+    feedback.push(`center accuracy (${centerAcc.toFixed(1)}px error)`);
+  }
+
+  const areaAcc = evaluation.area_accuracy;
+  if (areaAcc >= 0.9) {
+    score += 10;
+    feedback.push(`area calculation (${(areaAcc * 100).toFixed(1)}% accuracy)`);
+  } else if (areaAcc >= 0.8) {
+    score += 8;
+    feedback.push(`area calculation (${(areaAcc * 100).toFixed(1)}% accuracy)`);
+  } else if (areaAcc >= 0.7) {
+    score += 5;
+    feedback.push(`area calculation (${(areaAcc * 100).toFixed(1)}% accuracy)`);
+  } else {
+    feedback.push(`area calculation (${(areaAcc * 100).toFixed(1)}% accuracy)`);
+  }
+
+  // Reported only; vertex accuracy does not count towards the score.
+  const vertexError = evaluation.vertex_position_error;
+  if (vertexError !== null) {
+    feedback.push(`vertex accuracy (${vertexError.toFixed(1)}px error)`);
+  }
+
+  return score;
+}
+
+function calculateGrade(percentage: number): string {
+  if (percentage >= 90) return "A";
+  if (percentage >= 80) return "B";
+  if (percentage >= 70) return "C";
+  if (percentage >= 60) return "D";
+  return "F";
+}
+
+// Reliability diagram: one bar per confidence bin, as tall as the fraction
+// of its detections that were correct, with a marker at the bin's mean
+// confidence (where the bar would end if the detector were calibrated).
+function renderCalibration(calibration: CalibrationReport): string {
+  const rows = calibration.bins
+    .filter((bin) => bin.count > 0)
+    .map(
+      (bin) => `
+        <div class="calibration-row">
+          <span class="calibration-label">${bin.lower.toFixed(
+            1
+          )}–${bin.upper.toFixed(1)}</span>
+          <div class="calibration-bar">
+            <div class="calibration-accuracy" style="width: ${
+              bin.accuracy * 100
+            }%"></div>
+            <div class="calibration-expected" style="left: ${
+              bin.meanConfidence * 100
+            }%"></div>
+          </div>
+          <span class="calibration-count">${(bin.accuracy * 100).toFixed(
+            0
+          )}% of ${bin.count}</span>
+        </div>`
+    )
+    .join("");
+
+  return `
+    <div class="summary calibration">
+      <h4>Confidence Calibration:</h4>
+      <ul>
+        <li>Expected Calibration Error: ${calibration.expectedCalibrationError.toFixed(
+          3
+        )} (${calibration.sampleCount} detections)</li>
+        <li>Agreement with Expected Confidence: ${(
+          calibration.meanConfidenceAgreement * 100
+        ).toFixed(1)}%</li>
+      </ul>
+      ${rows}
+    </div>
+  `;
+}
@@ -0,0 +1,334 @@
+// Saved evaluation runs ("snapshots"): the results, the detector options
+// they were run with, and when. They are kept in localStorage, can be
+// exported as JSON files and imported again, and any two can be compared
+// (compareSnapshots), to see what a change to the detector or its options
+// made better or worse.
+
+import type { DetectorOptions } from "./detector-options.js";
+import { DEFAULT_METRICS } from "./evaluation-metrics.js";
+import type { EvaluationMetric } from "./evaluation-metrics.js";
+import type { OverallResults, TestResult } from "./evaluation.js";
+
+export interface EvaluationSnapshot {
+  name: string;
+  createdAt: string; // ISO 8601
+  detectorOptions: DetectorOptions;
+  results: OverallResults;
+}
+
+// Which way is better for the matching numbers of each image
+// (EvaluationMetrics). The rest are left out of comparisons.
+const IMAGE_MEASURES: Record<string, "higher" | "lower"> = {
+  precision: "higher",
+  recall: "higher",
+  f1_score: "higher",
+  average_iou: "higher",
+  center_point_accuracy: "lower", // A distance, despite the name
+  area_accuracy: "higher",
+  vertex_position_error: "lower",
+  false_positives: "lower",
+  false_negatives: "lower",
+};
+
+// Differences smaller than this are rounding, not change.
+const EPSILON = 1e-9;
+
+const STORAGE_KEY = "shape-detector.evaluation-snapshots";
+
+export class SnapshotStore {
+  private storage: Storage;
+
+  constructor(storage: Storage = localStorage) {
+    this.storage = storage;
+  }
+
+  // Oldest first.
+  list(): EvaluationSnapshot[] {
+    try {
+      const stored = this.storage.getItem(STORAGE_KEY);
+      return stored ? (JSON.parse(stored) as EvaluationSnapshot[]) : [];
+    } catch (error) {
+      console.error("Could not read the saved snapshots:", error);
+      return [];
+    }
+  }
+
+  get(name: string): EvaluationSnapshot | undefined {
+    return this.list().find((snapshot) => snapshot.name === name);
+  }
+
+  // Saves a snapshot, replacing any with the same name. Throws when
+  // localStorage is full.
+  save(snapshot: EvaluationSnapshot): void {
+    const others = this.list().filter((s) => s.name !== snapshot.name);
+    this.write([...others, snapshot]);
+  }
+
+  remove(name: string): void {
+    this.write(this.list().filter((snapshot) => snapshot.name !== name));
+  }
+
+  // A name no snapshot has yet: 'name' itself, or with " (2)", " (3)"...
+  uniqueName(name: string): string {
+    const taken = new Set(this.list().map((snapshot) => snapshot.name));
+    let unique = name;
+    for (let n = 2; taken.has(unique); n++) unique = `${name} (${n})`;
+    return unique;
+  }
+
+  private write(snapshots: EvaluationSnapshot[]): void {
+    this.storage.setItem(STORAGE_KEY, JSON.stringify(snapshots));
+  }
+}
+
+// A snapshot of a run, taken now. Traced contours and debug maps are left
+// out of the detections: they are the bulk of a result, and localStorage
+// only holds a few megabytes.
+export function createSnapshot(
+  name: string,
+  results: OverallResults,
+  detectorOptions: DetectorOptions
+): EvaluationSnapshot {
+  const testResults = results.testResults.map((result) => {
+    const { debug: _debug, ...detectionResult } = result.detectionResult;
+    return {
+      ...result,
+      detectionResult: {
+        ...detectionResult,
+        shapes: detectionResult.shapes.map(
+          ({ contour: _contour, ...shape }) => shape
+        ),
+      },
+    };
+  });
+  return {
+    name,
+    createdAt: new Date().toISOString(),
+    detectorOptions: { ...detectorOptions },
+    results: { ...results, testResults },
+  };
+}
+
+// Reads an exported snapshot file. One without detector options gets none,
+// so every option it is compared on shows as changed.
+export function parseSnapshot(json: string): EvaluationSnapshot {
+  const snapshot = JSON.parse(json) as EvaluationSnapshot;
+  const detectorOptions = snapshot?.detectorOptions ?? {};
+  if (
+    typeof snapshot?.name !== "string" ||
+    !Array.isArray(snapshot.results?.testResults) ||
+    typeof snapshot.results?.metrics !== "object" ||
+    typeof detectorOptions !== "object" ||
+    Array.isArray(detectorOptions)
+  ) {
+    throw new Error("Not an evaluation snapshot");
+  }
+  return { ...snapshot, detectorOptions };
+}
+
+// One number in two runs. Null where a run doesn't have it.
+export interface ValueChange {
+  path: string;
+  baseline: number | null;
+  current: number | null;
+  // "changed": different, or only in one run, with no better direction.
+  change: "better" | "worse" | "unchanged" | "changed";
+}
+
+export interface SnapshotComparison {
+  baseline: EvaluationSnapshot;
+  current: EvaluationSnapshot;
+  // The options that differ between the runs.
+  optionChanges: { name: string; baseline: unknown; current: unknown }[];
+  // Every number of every metric summary, by metric.
+  metrics: { id: string; name: string; changes: ValueChange[] }[];
+  // The images of either run, with their numbers that changed.
+  images: {
+    imageName: string;
+    changes: ValueChange[];
+    regressed: boolean; // Some number got worse
+    onlyIn?: "baseline" | "current";
+  }[];
+  regressionCount: number; // Numbers that got worse, over everything
+}
+
+// Compares a run with a baseline run. Metrics are judged by their 'better'
+// (metrics the list doesn't have are shown by ID, unjudged), and each image
+// by its matching numbers and its metric sections.
+export function compareSnapshots(
+  baseline: EvaluationSnapshot,
+  current: EvaluationSnapshot,
+  metrics: EvaluationMetric[] = DEFAULT_METRICS
+): SnapshotComparison {
+  const metricById = new Map(metrics.map((metric) => [metric.id, metric]));
+  const metricIds = unique([
+    ...Object.keys(baseline.results.metrics),
+    ...Object.keys(current.results.metrics),
+  ]);
+
+  const metricChanges = metricIds.map((id) => {
+    const metric = metricById.get(id);
+    return {
+      id,
+      name: metric?.name ?? id,
+      changes: compareValues(
+        numbersIn(baseline.results.metrics[id]),
+        numbersIn(current.results.metrics[id]),
+        (path) => metric?.better?.(path) ?? null,
+        id in baseline.results.metrics && id in current.results.metrics
+      ),
+    };
+  });
+
+  const baselineImages = byImage(baseline.results.testResults);
+  const currentImages = byImage(current.results.testResults);
+  const imageNames = unique([
+    ...baselineImages.keys(),
+    ...currentImages.keys(),
+  ]);
+  const images = imageNames.map((imageName) => {
+    const before = baselineImages.get(imageName);
+    const after = currentImages.get(imageName);
+    const changes = compareValues(
+      imageNumbers(before),
+      imageNumbers(after),
+      (path) => {
+        const [id, ...rest] = path.split(".");
+        if (id === "evaluation") return IMAGE_MEASURES[rest.join(".")] ?? null;
+        if (id === "metrics") {
+          const [metricId, ...inner] = rest;
+          return metricById.get(metricId)?.better?.(inner.join(".")) ?? null;
+        }
+        return null;
+      },
+      before !== undefined && after !== undefined
+    ).filter((change) => change.change !== "unchanged");
+    return {
+      imageName,
+      changes,
+      regressed: changes.some((change) => change.change === "worse"),
+      ...(!after && { onlyIn: "baseline" as const }),
+      ...(!before && { onlyIn: "current" as const }),
+    };
+  });
+
+  const optionNames = unique([
+    ...Object.keys(baseline.detectorOptions),
+    ...Object.keys(current.detectorOptions),
+  ]) as (keyof DetectorOptions)[];
+  const optionChanges = optionNames
+    .filter(
+      (name) =>
+        JSON.stringify(baseline.detectorOptions[name]) !==
+        JSON.stringify(current.detectorOptions[name])
+    )
+    .map((name) => ({
+      name,
+      baseline: baseline.detectorOptions[name],
+      current: current.detectorOptions[name],
+    }));
+
+  const regressionCount = [
+    ...metricChanges.flatMap((metric) => metric.changes),
+    ...images.flatMap((image) => image.changes),
+  ].filter((change) => change.change === "worse").length;
+
+  return {
+    baseline,
+    current,
+    optionChanges,
+    metrics: metricChanges,
+    images,
+    regressionCount,
+  };
+}
+
+// The numbers to compare for one image: its matching numbers, its metric
+// sections, and how many shapes were found.
+function imageNumbers(
+  result: TestResult | undefined
+): Map<string, number | null> {
+  if (!result) return new Map();
+  return numbersIn({
+    evaluation: Object.fromEntries(
+      Object.keys(IMAGE_MEASURES).map((key) => [
+        key,
+        result.evaluation[key as keyof typeof result.evaluation],
+      ])
+    ),
+    metrics: result.metrics,
+    shapes: result.detectionResult.shapes.length,
+  });
+}
+
+// Every number in a section, by its path. Booleans count as 1 and 0, and
+// nulls (a number that doesn't apply, like AP without ground truth) are
+// kept as such. Arrays only count when they hold objects with a 'type',
+// which names them in the path (like per-class rows); other arrays are left
+// out.
+function numbersIn(
+  value: unknown,
+  path = "",
+  numbers = new Map<string, number | null>()
+): Map<string, number | null> {
+  const join = (key: string) => (path ? `${path}.${key}` : key);
+  if (value === null) {
+    if (path) numbers.set(path, null);
+  } else if (typeof value === "number") {
+    numbers.set(path, value);
+  } else if (typeof value === "boolean") {
+    numbers.set(path, value ? 1 : 0);
+  } else if (Array.isArray(value)) {
+    for (const item of value) {
+      if (typeof item?.type === "string") {
+        numbersIn(item, join(item.type), numbers);
+      }
+    }
+  } else if (value && typeof value === "object") {
+    for (const [key, item] of Object.entries(value)) {
+      numbersIn(item, join(key), numbers);
+    }
+  }
+  return numbers;
+}
+
+// Judges the numbers of a section in two runs. Sections such as confusion
+// matrices and per-class rows leave out what they have none of, so with
+// 'bothRuns' (the section is in both) a judged number that only one run
+// has counts as 0 in the other: a new misclassification is a regression.
+function compareValues(
+  baseline: Map<string, number | null>,
+  current: Map<string, number | null>,
+  better: (path: string) => "higher" | "lower" | null,
+  bothRuns: boolean
+): ValueChange[] {
+  // Numbers that apply in neither run are left out.
+  const paths = unique([...baseline.keys(), ...current.keys()]).filter(
+    (path) => (baseline.get(path) ?? current.get(path) ?? null) !== null
+  );
+  return paths.map((path) => {
+    const direction = better(path);
+    const valueIn = (numbers: Map<string, number | null>) =>
+      numbers.has(path) ? numbers.get(path)! : bothRuns && direction ? 0 : null;
+    const before = valueIn(baseline);
+    const after = valueIn(current);
+    let change: ValueChange["change"] = "changed";
+    if (before !== null && after !== null) {
+      const delta = after - before;
+      if (Math.abs(delta) <= EPSILON) change = "unchanged";
+      else if (direction) {
+        const improved = direction === "higher" ? delta > 0 : delta < 0;
+        change = improved ? "better" : "worse";
+      }
+    }
+    return { path, baseline: before, current: after, change };
+  });
+}
+
+function byImage(results: TestResult[]): Map<string, TestResult> {
+  return new Map(results.map((result) => [result.imageName, result]));
+}
+
+function unique<T>(values: T[]): T[] {
+  return [...new Set(values)];
+}
@@ -1,6 +1,14 @@
 
+import { geometryKind, outline } from "./annotation.js";
+import { shapeOutline } from "./export.js";
+import { polygonOverlap } from "./geometry.js";
+import type { CoordinateFrame } from "./pyramid.js";
+import type { DetectedShape } from "./shape-detector.js";
+
 export interface GroundTruthShape {
-  type: string;
+  type: string; // Also "hexagon", "heptagon", "octagon" or "polygon" (with 'sides')
+  sides?: number;
+  points?: number; // For stars; five when missing
   center?: { x: number; y: number };
   bounding_box?: { x: number; y: number; width: number; height: number };
   area?: number;
@@ -10,6 +18,19 @@ export interface GroundTruthShape {
   [key: string]: any;
 }
 
+// One image's entry in ground_truth.json.
+export interface GroundTruthImage {
+  image_dimensions: { width: number; height: number };
+  shapes: GroundTruthShape[];
+  [key: string]: any; // Such as 'notes'
+}
+
+// The whole of ground_truth.json: the labeled images, keyed by file name.
+export interface GroundTruthData {
+  metadata?: { [key: string]: any };
+  images: Record<string, GroundTruthImage>;
+}
+
 export interface EvaluationMetrics {
   precision: number;
   recall: number;
@@ -18,9 +39,43 @@ export interface EvaluationMetrics {
   center_point_accuracy: number;
   area_accuracy: number;
   confidence_calibration: number;
+  // Mean distance in pixels between matched polygon corners; null when no
+  // matched pair had corners to compare.
+  vertex_position_error: number | null;
+  true_positives: number;
+  false_positives: number; // Detections matched to nothing
+  false_negatives: number; // Ground-truth shapes nothing was matched to
+  // No ground truth and no detections: the right answer for an empty
+  // scene, scored with precision, recall and F1 of 1.
+  true_negative: boolean;
+  // Every detection's confidence and whether it matched a ground-truth
+  // shape, for the calibration report.
+  confidence_samples: ConfidenceSample[];
   processing_time: number;
 }
 
+export interface ConfidenceSample {
+  confidence: number;
+  correct: boolean;
+}
+
+export interface CalibrationBin {
+  lower: number;
+  upper: number;
+  count: number;
+  meanConfidence: number;
+  accuracy: number; // Fraction of the detections in the bin that were correct
+}
+
+export interface CalibrationReport {
+  bins: CalibrationBin[]; // The reliability diagram
+  expectedCalibrationError: number;
+  // Mean confidence_calibration of the images (agreement with the
+  // expected confidence in the ground truth).
+  meanConfidenceAgreement: number;
+  sampleCount: number;
+}
+
 
 export function calculateIoU(box1: any, box2: any): number {
   const x1 = Math.max(box1.x, box2.x);
@@ -37,47 +92,151 @@ export function calculateIoU(box1: any, box2: any): number {
 }
 
 
+// IoU of the regions a detection and a ground-truth shape cover: their
+// polygons (from the corners), circles and ellipses (from center and radius
+// or axes), or the detection's traced contour. When either one has no such
+// geometry, we compare bounding boxes. 'frame' is the one the detection was
+// measured in; ground truth is in canvas coordinates. A ground-truth shape
+// with neither geometry nor a box overlaps nothing.
+export function calculateShapeIoU(detected: DetectedShape, groundTruth: GroundTruthShape, frame: CoordinateFrame = "pixels"): number {
+  const detectedRegion = hasDetectedGeometry(detected) ? shapeOutline(detected, frame) : null;
+  const groundTruthRegion = groundTruthOutline(groundTruth);
+  const groundTruthBox = groundTruth.bounding_box;
+  if (!detectedRegion || !groundTruthRegion) {
+    return groundTruthBox ? calculateIoU(detected.boundingBox, groundTruthBox) : 0;
+  }
+  // Shapes whose boxes don't touch don't overlap either. Ground truth may
+  // come without a box when it has its geometry.
+  if (groundTruthBox && calculateIoU(detected.boundingBox, groundTruthBox) === 0) return 0;
+  return polygonOverlap(detectedRegion, groundTruthRegion);
+}
+
+function hasDetectedGeometry(shape: DetectedShape): boolean {
+  return (shape.vertices?.length ?? 0) >= 3 || shape.radius !== undefined || shape.semiMajorAxis !== undefined || (shape.contour?.length ?? 0) >= 3;
+}
+
+// The ground-truth shape's outline, or null if it only has a bounding box.
+function groundTruthOutline(shape: GroundTruthShape): { x: number; y: number }[] | null {
+  const kind = geometryKind(shape.type);
+  if (!shape.center && kind !== "polygon") return null;
+  if (kind === "circle") return shape.radius ? outline(shape) : null;
+  if (kind === "ellipse") return shape.semi_major_axis && shape.semi_minor_axis ? outline(shape) : null;
+  return shape.vertices && shape.vertices.length >= 3 ? shape.vertices : null;
+}
+
+
+// Polygon names by number of sides, so a detected "polygon" with 6 sides
+// matches a ground-truth "hexagon" and the other way round.
+const POLYGON_TYPES_BY_SIDES: Record<number, string> = {
+  3: "triangle",
+  4: "rectangle",
+  5: "pentagon",
+  6: "hexagon",
+  7: "heptagon",
+  8: "octagon",
+};
+
+// A shape's class for the per-class metrics: its type, with generic
+// polygons named by their side count where there is a name.
+export function canonicalType(shape: { type: string; sides?: number }): string {
+  if (shape.type === "polygon" && shape.sides !== undefined) {
+    return POLYGON_TYPES_BY_SIDES[shape.sides] ?? "polygon";
+  }
+  return shape.type;
+}
+
+// Whether a detection has the same kind of shape as a ground-truth entry.
+// Generic polygons must also agree on their side count, and stars on their
+// point count (ground truth without 'points' means a five-point star).
+export function shapeTypesMatch(
+  detected: { type: string; sides?: number; points?: number },
+  groundTruth: GroundTruthShape
+): boolean {
+  const type = canonicalType(detected);
+  if (type !== canonicalType(groundTruth)) return false;
+
+  if (type === "polygon" && detected.sides !== undefined && groundTruth.sides !== undefined) {
+    return detected.sides === groundTruth.sides;
+  }
+  if (type === "star" && detected.points !== undefined) {
+    return detected.points === (groundTruth.points ?? 5);
+  }
+  return true;
+}
+
+
 export function calculateDistance(p1: { x: number; y: number }, p2: { x: number; y: number }): number {
   return Math.sqrt(Math.pow(p2.x - p1.x, 2) + Math.pow(p2.y - p1.y, 2));
 }
 
 
-export function evaluateDetection(detected: any[], groundTruth: GroundTruthShape[], imageName: string): EvaluationMetrics {
-  const iouThreshold = 0.5;
-  const centerThreshold = 10; 
-  const areaThreshold = 0.15; 
-  
+// Mean corner distance between two polygons, under the best pairing of
+// their corners (any starting corner, either winding). Null when the
+// corner counts differ.
+export function calculateVertexError(detected: { x: number; y: number }[], groundTruth: { x: number; y: number }[]): number | null {
+  const n = groundTruth.length;
+  if (n === 0 || detected.length !== n) return null;
+
+  let best = Infinity;
+  for (const direction of [1, -1]) {
+    for (let shift = 0; shift < n; shift++) {
+      let total = 0;
+      for (let i = 0; i < n; i++) {
+        const j = (((shift + direction * i) % n) + n) % n;
+        total += calculateDistance(detected[j], groundTruth[i]);
+      }
+      best = Math.min(best, total / n);
+    }
+  }
+  return best;
+}
+
+
+// The IoU a detection and a ground-truth shape need, at least, to count as
+// a match: in the matching numbers, the confusion matrix, and the per-class
+// precision and recall (the first of COCO's thresholds, which mAP goes on
+// from).
+export const MATCH_IOU_THRESHOLD = 0.5;
+
+// The matching evaluateDetection counts by: each detection's IoU with every
+// ground-truth shape (0 for other types), and the ground-truth shape it is
+// paired with, or -1.
+function matchDetections(detected: DetectedShape[], groundTruth: GroundTruthShape[], frame: CoordinateFrame = "pixels"): { ious: number[][]; assignment: number[] } {
+  const ious = detected.map((detectedShape) =>
+    groundTruth.map((gtShape) =>
+      shapeTypesMatch(detectedShape, gtShape) ? calculateShapeIoU(detectedShape, gtShape, frame) : 0
+    )
+  );
+  // One point per pair, so the number of pairs comes first, plus its IoU.
+  const assignment = optimalAssignment(ious.map((row) => row.map((iou) => (iou >= MATCH_IOU_THRESHOLD ? 1 + iou : 0))));
+  return { ious, assignment };
+}
+
+// Matches detections to ground truth of the same type that they overlap by
+// at least MATCH_IOU_THRESHOLD, one to one. The matching is the best one
+// overall: as many pairs as possible, and of those the largest total IoU.
+export function evaluateDetection(detected: any[], groundTruth: GroundTruthShape[], _imageName: string, frame: CoordinateFrame = "pixels"): EvaluationMetrics {
+  const { ious, assignment } = matchDetections(detected, groundTruth, frame);
+
   let truePositives = 0;
   let totalIoU = 0;
   let totalCenterDistance = 0;
   let totalAreaError = 0;
   let confidenceErrors = 0;
+  let totalVertexError = 0;
+  let vertexMatches = 0;
   
-  const matched = new Set();
+  const confidenceSamples: ConfidenceSample[] = [];
   
-  for (const detectedShape of detected) {
-    let bestMatch = null;
-    let bestIoU = 0;
-    let bestIndex = -1;
+  detected.forEach((detectedShape, d) => {
+    const bestIndex = assignment[d];
+    const bestMatch = bestIndex >= 0 ? groundTruth[bestIndex] : null;
     
-    for (let i = 0; i < groundTruth.length; i++) {
-      if (matched.has(i)) continue;
-      
-      const gtShape = groundTruth[i];
-      if (detectedShape.type !== gtShape.type) continue;
-      
-      const iou = calculateIoU(detectedShape.boundingBox, gtShape.bounding_box);
-      if (iou > bestIoU && iou > iouThreshold) {
-        bestMatch = gtShape;
-        bestIoU = iou;
-        bestIndex = i;
-      }
-    }
+    confidenceSamples.push({ confidence: detectedShape.confidence, correct: bestMatch !== null });
     
     if (bestMatch) {
-      matched.add(bestIndex);
       truePositives++;
-      totalIoU += bestIoU;
+      totalIoU += ious[d][bestIndex];
       
       if (bestMatch.center && detectedShape.center) {
         const distance = calculateDistance(detectedShape.center, bestMatch.center);
@@ -93,10 +252,21 @@ export function evaluateDetection(detected: any[], groundTruth: GroundTruthShape
         const confError = Math.abs(detectedShape.confidence - bestMatch.confidence_expected);
         confidenceErrors += confError;
       }
+      
+      if (bestMatch.vertices && detectedShape.vertices) {
+        const vertexError = calculateVertexError(detectedShape.vertices, bestMatch.vertices);
+        if (vertexError !== null) {
+          totalVertexError += vertexError;
+          vertexMatches++;
+        }
+      }
     }
-  }
+  });
   
-  const precision = detected.length > 0 ? truePositives / detected.length : 0;
+  // An image with nothing to find, where nothing was found, is a true
+  // negative: nothing was reported wrongly and nothing was missed.
+  const trueNegative = groundTruth.length === 0 && detected.length === 0;
+  const precision = detected.length > 0 ? truePositives / detected.length : trueNegative ? 1 : 0;
   const recall = groundTruth.length > 0 ? truePositives / groundTruth.length : 1;
   const f1Score = precision + recall > 0 ? 2 * (precision * recall) / (precision + recall) : 0;
   
@@ -108,6 +278,298 @@ export function evaluateDetection(detected: any[], groundTruth: GroundTruthShape
     center_point_accuracy: truePositives > 0 ? totalCenterDistance / truePositives : 0,
     area_accuracy: truePositives > 0 ? 1 - (totalAreaError / truePositives) : 0,
     confidence_calibration: truePositives > 0 ? 1 - (confidenceErrors / truePositives) : 0,
+    vertex_position_error: vertexMatches > 0 ? totalVertexError / vertexMatches : null,
+    true_positives: truePositives,
+    false_positives: detected.length - truePositives,
+    false_negatives: groundTruth.length - truePositives,
+    true_negative: trueNegative,
+    confidence_samples: confidenceSamples,
     processing_time: 0 
   };
 }
+
+
+// Pairs the rows of a weight matrix with its columns, at most one column per
+// row and one row per column, so that the total weight of the pairs is as
+// large as possible (the Hungarian algorithm, O(n^3)). Weights of 0 or less
+// are never paired. Returns each row's column, or -1.
+export function optimalAssignment(weights: number[][]): number[] {
+  const rows = weights.length;
+  const cols = rows > 0 ? weights[0].length : 0;
+  const n = Math.max(rows, cols);
+  // We minimize cost over a square matrix, padded with zeros, with 1-based
+  // indices; p[j] is the row assigned to column j, and u, v the potentials.
+  const cost = (i: number, j: number) => (i <= rows && j <= cols ? -Math.max(0, weights[i - 1][j - 1]) : 0);
+  const u = new Array(n + 1).fill(0);
+  const v = new Array(n + 1).fill(0);
+  const p = new Array(n + 1).fill(0);
+  const way = new Array(n + 1).fill(0);
+
+  for (let i = 1; i <= n; i++) {
+    p[0] = i;
+    let j0 = 0;
+    const minv = new Array(n + 1).fill(Infinity);
+    const used = new Array(n + 1).fill(false);
+    do {
+      used[j0] = true;
+      const i0 = p[j0];
+      let delta = Infinity;
+      let j1 = 0;
+      for (let j = 1; j <= n; j++) {
+        if (used[j]) continue;
+        const reduced = cost(i0, j) - u[i0] - v[j];
+        if (reduced < minv[j]) {
+          minv[j] = reduced;
+          way[j] = j0;
+        }
+        if (minv[j] < delta) {
+          delta = minv[j];
+          j1 = j;
+        }
+      }
+      for (let j = 0; j <= n; j++) {
+        if (used[j]) {
+          u[p[j]] += delta;
+          v[j] -= delta;
+        } else {
+          minv[j] -= delta;
+        }
+      }
+      j0 = j1;
+    } while (p[j0] !== 0);
+    do {
+      const j1 = way[j0];
+      p[j0] = p[j1];
+      j0 = j1;
+    } while (j0 !== 0);
+  }
+
+  const assignment = new Array(rows).fill(-1);
+  for (let j = 1; j <= cols; j++) {
+    const i = p[j];
+    if (i >= 1 && i <= rows && weights[i - 1][j - 1] > 0) assignment[i - 1] = j - 1;
+  }
+  return assignment;
+}
+
+
+// Reliability diagram and expected calibration error (ECE) over all
+// detections of an evaluation run. Detections are put in equal-width
+// confidence bins; in a well calibrated detector, the fraction of correct
+// detections in each bin matches its mean confidence. ECE is the gap
+// between the two, averaged over the bins weighted by their size.
+export function buildCalibrationReport(evaluations: EvaluationMetrics[], binCount = 10): CalibrationReport {
+  const samples = evaluations.flatMap((e) => e.confidence_samples);
+  const bins: CalibrationBin[] = [];
+  for (let i = 0; i < binCount; i++) {
+    bins.push({ lower: i / binCount, upper: (i + 1) / binCount, count: 0, meanConfidence: 0, accuracy: 0 });
+  }
+
+  for (const sample of samples) {
+    const index = Math.min(binCount - 1, Math.floor(sample.confidence * binCount));
+    const bin = bins[index];
+    bin.count++;
+    bin.meanConfidence += sample.confidence;
+    if (sample.correct) bin.accuracy++;
+  }
+
+  let expectedCalibrationError = 0;
+  for (const bin of bins) {
+    if (bin.count === 0) continue;
+    bin.meanConfidence /= bin.count;
+    bin.accuracy /= bin.count;
+    expectedCalibrationError += (bin.count / samples.length) * Math.abs(bin.accuracy - bin.meanConfidence);
+  }
+
+  const meanConfidenceAgreement = evaluations.length > 0
+    ? evaluations.reduce((sum, e) => sum + e.confidence_calibration, 0) / evaluations.length
+    : 0;
+
+  return { bins, expectedCalibrationError, meanConfidenceAgreement, sampleCount: samples.length };
+}
+
+
+// The IoU thresholds COCO averages its mAP over: 0.5, 0.55, ..., 0.95.
+export const COCO_IOU_THRESHOLDS = Array.from({ length: 10 }, (_, i) => Math.round((MATCH_IOU_THRESHOLD + i * 0.05) * 100) / 100);
+
+// A detected or ground-truth class with nothing to pair it with, in a
+// confusion matrix.
+export const NO_SHAPE = "none";
+
+// The detections and ground truth of one image, for the metrics that pool
+// every image of a run.
+export interface ImageDetections {
+  detected: DetectedShape[];
+  groundTruth: GroundTruthShape[];
+  frame?: CoordinateFrame; // Of the detections; "pixels" when left out
+}
+
+export interface ClassMetrics {
+  type: string; // As canonicalType names it
+  groundTruthCount: number;
+  detectionCount: number;
+  // AP averaged over COCO_IOU_THRESHOLDS, and at IoU 0.5 and 0.75. Null
+  // when the class has no ground truth, as AP is then undefined.
+  ap: number | null;
+  ap50: number | null;
+  ap75: number | null;
+  // Of the same one-to-one matching evaluateDetection counts, so they add
+  // up to its true positives.
+  precision: number;
+  recall: number;
+}
+
+export interface MeanAveragePrecision {
+  // Means over the classes that have ground truth.
+  map: number; // mAP@[.5:.95]
+  ap50: number;
+  ap75: number;
+  classes: ClassMetrics[];
+}
+
+// Ground-truth type, then detected type, to how many shapes of the one were
+// detected as the other. NO_SHAPE as the detected type counts missed shapes,
+// and as the ground-truth type detections of nothing.
+export type ConfusionMatrix = Record<string, Record<string, number>>;
+
+
+// COCO-style mAP over a run. Detections of each class are ranked by
+// confidence across all images, and each one, in turn, takes the unmatched
+// ground-truth shape of its class and image it overlaps most (if by at least
+// the threshold); AP is the area under the resulting precision-recall curve.
+// Precision and recall per class come from the matching of evaluateDetection
+// instead.
+export function calculateMeanAveragePrecision(images: ImageDetections[]): MeanAveragePrecision {
+  const types = new Set<string>();
+  for (const image of images) {
+    image.detected.forEach((shape) => types.add(canonicalType(shape)));
+    image.groundTruth.forEach((shape) => types.add(canonicalType(shape)));
+  }
+  const assignments = images.map((image) => matchDetections(image.detected, image.groundTruth, image.frame).assignment);
+  const classes = [...types].sort().map((type) => calculateClassMetrics(images, assignments, type));
+
+  const scored = classes.filter((c) => c.ap !== null);
+  const mean = (value: (c: ClassMetrics) => number | null) =>
+    scored.length > 0 ? scored.reduce((sum, c) => sum + (value(c) ?? 0), 0) / scored.length : 0;
+
+  return { map: mean((c) => c.ap), ap50: mean((c) => c.ap50), ap75: mean((c) => c.ap75), classes };
+}
+
+function calculateClassMetrics(images: ImageDetections[], assignments: number[][], type: string): ClassMetrics {
+  const detections = images.flatMap((image, imageIndex) =>
+    image.detected.filter((shape) => canonicalType(shape) === type).map((shape) => ({ shape, imageIndex }))
+  );
+  detections.sort((a, b) => b.shape.confidence - a.shape.confidence);
+  const groundTruth = images.map((image) => image.groundTruth.filter((shape) => canonicalType(shape) === type));
+  const groundTruthCount = groundTruth.reduce((sum, shapes) => sum + shapes.length, 0);
+
+  const hitsByThreshold = COCO_IOU_THRESHOLDS.map((threshold) => {
+    const matched = groundTruth.map(() => new Set<number>());
+    return detections.map(({ shape, imageIndex }) => {
+      let bestIndex = -1;
+      let bestIoU = threshold;
+      groundTruth[imageIndex].forEach((gtShape, i) => {
+        if (matched[imageIndex].has(i) || !shapeTypesMatch(shape, gtShape)) return;
+        const iou = calculateShapeIoU(shape, gtShape, images[imageIndex].frame);
+        if (iou >= bestIoU) {
+          bestIoU = iou;
+          bestIndex = i;
+        }
+      });
+      if (bestIndex >= 0) matched[imageIndex].add(bestIndex);
+      return bestIndex >= 0;
+    });
+  });
+
+  const apAt = (index: number) => groundTruthCount > 0 ? interpolatedAP(hitsByThreshold[index], groundTruthCount) : null;
+  const aps = COCO_IOU_THRESHOLDS.map((_, i) => apAt(i));
+  let matchedDetections = 0;
+  let matchedGroundTruth = 0;
+  assignments.forEach((assignment, i) =>
+    assignment.forEach((g, d) => {
+      if (g < 0) return;
+      if (canonicalType(images[i].detected[d]) === type) matchedDetections++;
+      if (canonicalType(images[i].groundTruth[g]) === type) matchedGroundTruth++;
+    })
+  );
+
+  return {
+    type,
+    groundTruthCount,
+    detectionCount: detections.length,
+    ap: groundTruthCount > 0 ? aps.reduce((sum: number, ap) => sum + (ap ?? 0), 0) / aps.length : null,
+    ap50: aps[0],
+    ap75: aps[COCO_IOU_THRESHOLDS.indexOf(0.75)],
+    precision: detections.length > 0 ? matchedDetections / detections.length : 0,
+    recall: groundTruthCount > 0 ? matchedGroundTruth / groundTruthCount : 0,
+  };
+}
+
+// Area under the precision-recall curve of a ranked list of detections
+// (true for a match). As in COCO, precision at each recall is the best
+// precision at that recall or higher, sampled at 101 recall points.
+function interpolatedAP(hits: boolean[], groundTruthCount: number): number {
+  const precision: number[] = [];
+  const recall: number[] = [];
+  let truePositives = 0;
+  hits.forEach((hit, i) => {
+    if (hit) truePositives++;
+    precision.push(truePositives / (i + 1));
+    recall.push(truePositives / groundTruthCount);
+  });
+  for (let i = precision.length - 2; i >= 0; i--) {
+    precision[i] = Math.max(precision[i], precision[i + 1]);
+  }
+
+  let total = 0;
+  let index = 0;
+  for (let r = 0; r <= 100; r++) {
+    while (index < recall.length && recall[index] < r / 100) index++;
+    total += index < precision.length ? precision[index] : 0;
+  }
+  return total / 101;
+}
+
+
+// Pairs one image's detections with its ground truth by overlap alone,
+// whatever their types (as many pairs of at least the threshold IoU as
+// possible, see optimalAssignment), and counts what each ground-truth type
+// was detected as.
+export function buildConfusionMatrix(detected: DetectedShape[], groundTruth: GroundTruthShape[], frame: CoordinateFrame = "pixels", iouThreshold = MATCH_IOU_THRESHOLD): ConfusionMatrix {
+  const assignment = optimalAssignment(
+    detected.map((shape) =>
+      groundTruth.map((gtShape) => {
+        const iou = calculateShapeIoU(shape, gtShape, frame);
+        return iou >= iouThreshold ? 1 + iou : 0;
+      })
+    )
+  );
+
+  const matrix: ConfusionMatrix = {};
+  const count = (expected: string, found: string) => {
+    matrix[expected] ??= {};
+    matrix[expected][found] = (matrix[expected][found] ?? 0) + 1;
+  };
+  const matched = new Set(assignment);
+  detected.forEach((shape, d) => {
+    const g = assignment[d];
+    count(g >= 0 ? canonicalType(groundTruth[g]) : NO_SHAPE, canonicalType(shape));
+  });
+  groundTruth.forEach((gtShape, g) => {
+    if (!matched.has(g)) count(canonicalType(gtShape), NO_SHAPE);
+  });
+  return matrix;
+}
+
+export function mergeConfusionMatrices(matrices: ConfusionMatrix[]): ConfusionMatrix {
+  const merged: ConfusionMatrix = {};
+  for (const matrix of matrices) {
+    for (const [expected, row] of Object.entries(matrix)) {
+      merged[expected] ??= {};
+      for (const [found, count] of Object.entries(row)) {
+        merged[expected][found] = (merged[expected][found] ?? 0) + count;
+      }
+    }
+  }
+  return merged;
+}
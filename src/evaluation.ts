@@ -1,393 +1,185 @@
-import type { DetectionResult } from "./main.js";
-import { ShapeDetector } from "./main.js";
+import type { DetectionResult, Detector } from "./shape-detector.js";
 import { evaluateDetection } from "./evaluation-utils.js";
 import type { EvaluationMetrics } from "./evaluation-utils.js";
-import { testImages, getAllTestImageNames } from "./test-images-data.js";
-
-let groundTruthData: any = null;
-
-async function loadGroundTruth() {
-  if (!groundTruthData) {
-    try {
-      const response = await fetch("/ground_truth.json");
-      groundTruthData = await response.json();
-    } catch (error) {
-      console.error("Failed to load ground truth data:", error);
-      throw error;
-    }
-  }
-  return groundTruthData;
-}
+import type { EvaluationDataset } from "./evaluation-dataset.js";
+import type { CoordinateFrame } from "./pyramid.js";
+import { escapeHtml } from "./ui-utils.js";
+import { DEFAULT_METRICS } from "./evaluation-metrics.js";
+import type {
+  EvaluationMetric,
+  ImageEvaluation,
+} from "./evaluation-metrics.js";
 
 export interface TestResult {
   imageName: string;
   detectionResult: DetectionResult;
   evaluation: EvaluationMetrics;
-  passed: boolean;
-  feedback: string[];
+  error?: string;
+  passed: boolean; // No metric failed it
+  metrics: Record<string, unknown>; // Each metric's section, by metric ID
 }
 
 export interface OverallResults {
-  totalScore: number;
-  maxScore: number;
-  percentage: number;
-  grade: string;
+  dataset: string;
   testResults: TestResult[];
-  summary: {
-    averagePrecision: number;
-    averageRecall: number;
-    averageF1: number;
-    averageIoU: number;
-    totalProcessingTime: number;
-  };
+  metrics: Record<string, unknown>; // Each metric's summary, by metric ID
 }
 
-export async function runSelectedEvaluation(
-  detector: ShapeDetector,
-  selectedImageNames: string[]
-): Promise<OverallResults> {
-  const groundTruth = await loadGroundTruth();
-  const testResults: TestResult[] = [];
-
-  let totalPrecision = 0;
-  let totalRecall = 0;
-  let totalF1 = 0;
-  let totalIoU = 0;
-  let totalProcessingTime = 0;
-  let totalScore = 0;
-
-  for (const imageName of selectedImageNames) {
-    console.log(`Testing selected: ${imageName}`);
-
-    try {
-      const dataUrl = testImages[imageName as keyof typeof testImages];
-      const response = await fetch(dataUrl);
-      const blob = await response.blob();
-      const file = new File([blob], imageName, { type: "image/svg+xml" });
-
-      const canvas = document.createElement("canvas");
-      const tempDetector = new ShapeDetector(canvas);
-
-      const imageData = await tempDetector.loadImage(file);
-      const detectionResult = await detector.detectShapes(imageData);
-
-      const gtShapes = groundTruth.images[imageName]?.shapes || [];
-
-      // Evaluate results
-      const evaluation = evaluateDetection(
-        detectionResult.shapes,
-        gtShapes,
-        imageName
-      );
-      evaluation.processing_time = detectionResult.processingTime;
-
-      const { passed, feedback, score } = calculateScore(
-        evaluation,
-        detectionResult
-      );
-
-      totalPrecision += evaluation.precision;
-      totalRecall += evaluation.recall;
-      totalF1 += evaluation.f1_score;
-      totalIoU += evaluation.average_iou;
-      totalProcessingTime += evaluation.processing_time;
-      totalScore += score;
-
-      testResults.push({
-        imageName,
-        detectionResult,
-        evaluation,
-        passed,
-        feedback,
-      });
-    } catch (error) {
-      console.error(`Error testing ${imageName}:`, error);
-      testResults.push({
-        imageName,
-        detectionResult: {
-          shapes: [],
-          processingTime: 0,
-          imageWidth: 0,
-          imageHeight: 0,
-        },
-        evaluation: {
-          precision: 0,
-          recall: 0,
-          f1_score: 0,
-          average_iou: 0,
-          center_point_accuracy: 0,
-          area_accuracy: 0,
-          confidence_calibration: 0,
-          processing_time: 0,
-        },
-        passed: false,
-        feedback: [`Error during testing: ${error}`],
-      });
-    }
-  }
-
-  const numTests = testResults.length;
-  const maxScore = numTests * 100;
-  const percentage = (totalScore / maxScore) * 100;
-
-  const results: OverallResults = {
-    totalScore: Math.round(totalScore),
-    maxScore,
-    percentage: Math.round(percentage * 100) / 100,
-    grade: calculateGrade(percentage),
-    testResults,
-    summary: {
-      averagePrecision: totalPrecision / numTests,
-      averageRecall: totalRecall / numTests,
-      averageF1: totalF1 / numTests,
-      averageIoU: totalIoU / numTests,
-      totalProcessingTime,
-    },
-  };
-
-  console.log("Selected evaluation complete!");
-  return results;
-}
+// Called after each image with the number of images done so far.
+export type EvaluationProgress = (completed: number, total: number) => void;
 
+// Runs the detector on every image of a dataset, matches its detections to
+// the ground truth, and has each metric measure the images and sum up the
+// run. Images that fail to load or detect are kept, with an empty result.
+// 'frame' is the coordinate frame the detector measures in ("pixels" unless
+// its measurement option says else).
 export async function runEvaluation(
-  detector: ShapeDetector
+  dataset: EvaluationDataset,
+  detector: Detector,
+  metrics: EvaluationMetric[] = DEFAULT_METRICS,
+  onProgress?: EvaluationProgress,
+  frame: CoordinateFrame = "pixels"
 ): Promise<OverallResults> {
-  const groundTruth = await loadGroundTruth();
-  const testResults: TestResult[] = [];
-  const imageNames = getAllTestImageNames();
+  const ids = metrics.map((metric) => metric.id);
+  const duplicate = ids.find((id, i) => ids.indexOf(id) !== i);
+  if (duplicate) throw new Error(`Two metrics with the ID "${duplicate}"`);
 
-  let totalPrecision = 0;
-  let totalRecall = 0;
-  let totalF1 = 0;
-  let totalIoU = 0;
-  let totalProcessingTime = 0;
-  let totalScore = 0;
+  const groundTruth = await dataset.loadGroundTruth();
+  const images: ImageEvaluation[] = [];
 
-  for (const imageName of imageNames) {
+  for (const imageName of dataset.imageNames) {
     console.log(`Testing: ${imageName}`);
+    const gtShapes = groundTruth.images[imageName]?.shapes || [];
 
     try {
-      const dataUrl = testImages[imageName as keyof typeof testImages];
-      const response = await fetch(dataUrl);
-      const blob = await response.blob();
-      const file = new File([blob], imageName, { type: "image/svg+xml" });
-
-      const canvas = document.createElement("canvas");
-      const tempDetector = new ShapeDetector(canvas);
-
-      const imageData = await tempDetector.loadImage(file);
+      const imageData = await dataset.loadImage(imageName);
       const detectionResult = await detector.detectShapes(imageData);
 
-      const gtShapes = groundTruth.images[imageName]?.shapes || [];
-
-      // Evaluate results
       const evaluation = evaluateDetection(
         detectionResult.shapes,
         gtShapes,
-        imageName
+        imageName,
+        frame
       );
       evaluation.processing_time = detectionResult.processingTime;
 
-      const { passed, feedback, score } = calculateScore(
-        evaluation,
-        detectionResult
-      );
-
-      totalPrecision += evaluation.precision;
-      totalRecall += evaluation.recall;
-      totalF1 += evaluation.f1_score;
-      totalIoU += evaluation.average_iou;
-      totalProcessingTime += evaluation.processing_time;
-      totalScore += score;
-
-      testResults.push({
+      images.push({
         imageName,
         detectionResult,
+        groundTruth: gtShapes,
+        frame,
         evaluation,
-        passed,
-        feedback,
       });
     } catch (error) {
       console.error(`Error testing ${imageName}:`, error);
-      testResults.push({
+      const detectionResult: DetectionResult = {
+        shapes: [],
+        processingTime: 0,
+        imageWidth: 0,
+        imageHeight: 0,
+      };
+      images.push({
         imageName,
-        detectionResult: {
-          shapes: [],
-          processingTime: 0,
-          imageWidth: 0,
-          imageHeight: 0,
-        },
-        evaluation: {
-          precision: 0,
-          recall: 0,
-          f1_score: 0,
-          average_iou: 0,
-          center_point_accuracy: 0,
-          area_accuracy: 0,
-          confidence_calibration: 0,
-          processing_time: 0,
-        },
-        passed: false,
-        feedback: [`Error during testing: ${error}`],
+        detectionResult,
+        groundTruth: gtShapes,
+        frame,
+        evaluation: emptyEvaluation(gtShapes.length),
+        error: String(error),
       });
     }
+    onProgress?.(images.length, dataset.imageNames.length);
   }
 
-  const numTests = testResults.length;
-  const maxScore = numTests * 100;
-  const percentage = (totalScore / maxScore) * 100;
-
-  const results: OverallResults = {
-    totalScore: Math.round(totalScore),
-    maxScore,
-    percentage: Math.round(percentage * 100) / 100,
-    grade: calculateGrade(percentage),
-    testResults,
-    summary: {
-      averagePrecision: totalPrecision / numTests,
-      averageRecall: totalRecall / numTests,
-      averageF1: totalF1 / numTests,
-      averageIoU: totalIoU / numTests,
-      totalProcessingTime,
-    },
-  };
-
-  console.log("Evaluation complete!");
-  return results;
-}
-
-function calculateScore(
-  evaluation: EvaluationMetrics,
-  detection: DetectionResult
-): {
-  passed: boolean;
-  feedback: string[];
-  score: number;
-} {
-  const feedback: string[] = [];
-  let score = 0;
-
-  const f1 = evaluation.f1_score;
-  if (f1 >= 0.9) {
-    score += 40;
-    feedback.push(`detection accuracy (F1: ${f1.toFixed(3)})`);
-  } else if (f1 >= 0.7) {
-    score += 30;
-    feedback.push(`detection accuracy (F1: ${f1.toFixed(3)})`);
-  } else if (f1 >= 0.5) {
-    score += 20;
-    feedback.push(`detection accuracy (F1: ${f1.toFixed(3)})`);
-  } else {
-    feedback.push(`detection accuracy (F1: ${f1.toFixed(3)})`);
+  const testResults: TestResult[] = images.map((image) => ({
+    imageName: image.imageName,
+    detectionResult: image.detectionResult,
+    evaluation: image.evaluation,
+    ...(image.error !== undefined && { error: image.error }),
+    passed: image.error === undefined,
+    metrics: {},
+  }));
+  const summaries: Record<string, unknown> = {};
+  for (const metric of metrics) {
+    const sections = metric.evaluateImage
+      ? images.map((image) => metric.evaluateImage!(image))
+      : [];
+    sections.forEach((section, i) => {
+      testResults[i].metrics[metric.id] = section;
+      if (metric.passes && !metric.passes(section)) {
+        testResults[i].passed = false;
+      }
+    });
+    summaries[metric.id] = metric.summarize(images, sections);
   }
 
-  const avgIoU = evaluation.average_iou;
-  if (avgIoU >= 0.8) {
-    score += 25;
-    feedback.push(`✓ Excellent localization (IoU: ${avgIoU.toFixed(3)})`);
-  } else if (avgIoU >= 0.6) {
-    score += 20;
-    feedback.push(`✓ Good localization (IoU: ${avgIoU.toFixed(3)})`);
-  } else if (avgIoU >= 0.4) {
-    score += 10;
-    feedback.push(`△ Fair localization (IoU: ${avgIoU.toFixed(3)})`);
-  } else {
-    feedback.push(`✗ Poor localization (IoU: ${avgIoU.toFixed(3)})`);
-  }
-
-  const centerAcc = evaluation.center_point_accuracy;
-  if (centerAcc <= 5) {
-    score += 15;
-    feedback.push(`center accuracy (${centerAcc.toFixed(1)}px error)`);
-  } else if (centerAcc <= 10) {
-    score += 12;
-    feedback.push(`center accuracy (${centerAcc.toFixed(1)}px error)`);
-  } else if (centerAcc <= 20) {
-    score += 8;
-    feedback.push(`center accuracy (${centerAcc.toFixed(1)}px error)`);
-  } else {
-    feedback.push(`center accuracy (${centerAcc.toFixed(1)}px error)`);
-  }
-
-  const areaAcc = evaluation.area_accuracy;
-  if (areaAcc >= 0.9) {
-    score += 10;
-    feedback.push(`area calculation (${(areaAcc * 100).toFixed(1)}% accuracy)`);
-  } else if (areaAcc >= 0.8) {
-    score += 8;
-    feedback.push(`area calculation (${(areaAcc * 100).toFixed(1)}% accuracy)`);
-  } else if (areaAcc >= 0.7) {
-    score += 5;
-    feedback.push(`area calculation (${(areaAcc * 100).toFixed(1)}% accuracy)`);
-  } else {
-    feedback.push(`area calculation (${(areaAcc * 100).toFixed(1)}% accuracy)`);
-  }
-
-  const processingTime = detection.processingTime;
-  if (processingTime <= 500) {
-    score += 10;
-    feedback.push(`performance (${processingTime.toFixed(0)}ms)`);
-  } else if (processingTime <= 1000) {
-    score += 8;
-    feedback.push(`performance (${processingTime.toFixed(0)}ms)`);
-  } else if (processingTime <= 2000) {
-    score += 5;
-    feedback.push(`performance (${processingTime.toFixed(0)}ms)`);
-  } else {
-    feedback.push(`performance (${processingTime.toFixed(0)}ms)`);
-  }
-
-  const passed = score >= 60;
-  return { passed, feedback, score };
+  console.log(`Evaluation of ${dataset.name} complete!`);
+  return { dataset: dataset.name, testResults, metrics: summaries };
 }
 
-function calculateGrade(percentage: number): string {
-  if (percentage >= 90) return "A";
-  if (percentage >= 80) return "B";
-  if (percentage >= 70) return "C";
-  if (percentage >= 60) return "D";
-  return "F";
+// An error's place in the averages: nothing found, nothing right.
+function emptyEvaluation(groundTruthCount: number): EvaluationMetrics {
+  return {
+    precision: 0,
+    recall: 0,
+    f1_score: 0,
+    average_iou: 0,
+    center_point_accuracy: 0,
+    area_accuracy: 0,
+    confidence_calibration: 0,
+    vertex_position_error: null,
+    true_positives: 0,
+    false_positives: 0,
+    false_negatives: groundTruthCount,
+    true_negative: false,
+    confidence_samples: [],
+    processing_time: 0,
+  };
 }
 
+// Shows the results with each metric's own HTML. Sections of metrics that
+// aren't in the list (or can't render) are left out.
 export function displayEvaluationResults(
   results: OverallResults,
-  container: HTMLElement
+  container: HTMLElement,
+  metrics: EvaluationMetric[] = DEFAULT_METRICS
 ): void {
+  const summaries = metrics
+    .filter((metric) => metric.render && metric.id in results.metrics)
+    .map((metric) => metric.render!(results.metrics[metric.id]))
+    .join("");
+
+  const renderImage = (result: TestResult) =>
+    metrics
+      .filter((metric) => metric.renderImage && metric.id in result.metrics)
+      .map((metric) => metric.renderImage!(result.metrics[metric.id]))
+      .join("");
+
   const html = `
     <div class="evaluation-results">
       <h2>Evaluation Results</h2>
-      <div class="summary">
-        <h4>Summary Metrics:</h4>
-        <ul>
-          <li>Average Precision: ${(
-            results.summary.averagePrecision * 100
-          ).toFixed(1)}%</li>
-          <li>Average Recall: ${(results.summary.averageRecall * 100).toFixed(
-            1
-          )}%</li>
-          <li>Average F1 Score: ${results.summary.averageF1.toFixed(3)}</li>
-          <li>Average IoU: ${results.summary.averageIoU.toFixed(3)}</li>
-          <li>Total Processing Time: ${results.summary.totalProcessingTime.toFixed(
-            0
-          )}ms</li>
-        </ul>
-      </div>
-      
+      <p>${escapeHtml(results.dataset)}, ${results.testResults.length} images</p>
+      ${summaries}
+
       <div class="detailed-results">
         <h4>Detailed Results:</h4>
         ${results.testResults
           .map(
             (result) => `
           <div class="test-result ${result.passed ? "passed" : "failed"}">
-            <h5>${result.imageName} ${result.passed ? "✓" : "x"}</h5>
+            <h5>${escapeHtml(result.imageName)} ${result.passed ? "✓" : "x"}</h5>
             <p><strong>Detected:</strong> ${
               result.detectionResult.shapes.length
             } shapes</p>
             <p><strong>Processing Time:</strong> ${result.detectionResult.processingTime.toFixed(
               0
             )}ms</p>
+            ${
+              result.error
+                ? `<p>Error during testing: ${escapeHtml(result.error)}</p>`
+                : ""
+            }
             <div class="feedback">
-              ${result.feedback.map((fb) => `<p>${fb}</p>`).join("")}
+              ${renderImage(result)}
             </div>
           </div>
         `
@@ -0,0 +1,314 @@
+// Turns a DetectionResult into files other tools read: the raw JSON, a CSV
+// table with one row per shape, a COCO annotation file (bounding boxes and
+// polygon segmentation), and an SVG that redraws the shapes.
+//
+// Everything is written in canvas coordinates, where pixel (x, y) covers
+// the square from (x, y) to (x + 1, y + 1), as COCO and SVG expect. Shapes
+// measured in "pixels" (the default measurement) are moved there first.
+
+import type { CoordinateFrame } from "./pyramid.js";
+import { TYPE_COLORS } from "./overlay.js";
+import type {
+  DetectedShape,
+  DetectionResult,
+  Point,
+} from "./shape-detector.js";
+
+export type ExportFormat = "json" | "csv" | "coco" | "svg";
+
+// COCO category IDs are these types' positions, counted from 1.
+export const SHAPE_TYPES: readonly DetectedShape["type"][] = [
+  "circle",
+  "ellipse",
+  "triangle",
+  "rectangle",
+  "pentagon",
+  "hexagon",
+  "heptagon",
+  "octagon",
+  "polygon",
+  "star",
+];
+
+// Corners of the polygon that stands in for a circle or an ellipse.
+const CURVE_SEGMENTS = 64;
+
+export interface CocoDataset {
+  info: { description: string; date_created: string };
+  images: { id: number; file_name: string; width: number; height: number }[];
+  categories: { id: number; name: string; supercategory: string }[];
+  annotations: CocoAnnotation[];
+}
+
+export interface CocoAnnotation {
+  id: number;
+  image_id: number;
+  category_id: number;
+  bbox: [number, number, number, number]; // x, y, width, height
+  area: number;
+  segmentation: number[][]; // One polygon: x1, y1, x2, y2, ...
+  iscrowd: 0;
+  score: number; // The detection confidence
+}
+
+// The file contents and MIME type for a format, ready to be saved.
+export function exportResult(
+  result: DetectionResult,
+  format: ExportFormat,
+  fileName: string,
+  frame: CoordinateFrame = "pixels"
+): { content: string; mimeType: string } {
+  switch (format) {
+    case "json":
+      // The debug maps (debug option) hold a number per pixel, far too
+      // big for JSON, so they are left out.
+      return {
+        content: JSON.stringify(
+          result,
+          (key, value) => (key === "debug" ? undefined : value),
+          2
+        ),
+        mimeType: "application/json",
+      };
+    case "csv":
+      return { content: toCsv(result, frame), mimeType: "text/csv" };
+    case "coco":
+      return {
+        content: JSON.stringify(
+          toCoco([{ fileName, result }], frame),
+          null,
+          2
+        ),
+        mimeType: "application/json",
+      };
+    case "svg":
+      return { content: toSvg(result, frame), mimeType: "image/svg+xml" };
+  }
+}
+
+const CSV_COLUMNS = [
+  "index",
+  "type",
+  "subtype",
+  "sides",
+  "points",
+  "confidence",
+  "center_x",
+  "center_y",
+  "area",
+  "bbox_x",
+  "bbox_y",
+  "bbox_width",
+  "bbox_height",
+  "rotation",
+  "radius",
+  "semi_major_axis",
+  "semi_minor_axis",
+  "filled",
+  "overlapping",
+  "color",
+  "track_id",
+] as const;
+
+// One row per shape. Fields a shape doesn't have are left empty.
+export function toCsv(
+  result: DetectionResult,
+  frame: CoordinateFrame = "pixels"
+): string {
+  const rows = result.shapes.map((shape, index) => {
+    const center = toCanvas(shape.center, frame);
+    const box = shape.boundingBox;
+    const row: Record<(typeof CSV_COLUMNS)[number], unknown> = {
+      index,
+      type: shape.type,
+      subtype: shape.subtype,
+      sides: shape.sides,
+      points: shape.points,
+      confidence: shape.confidence,
+      center_x: center.x,
+      center_y: center.y,
+      area: shape.area,
+      bbox_x: box.x,
+      bbox_y: box.y,
+      bbox_width: box.width,
+      bbox_height: box.height,
+      rotation: shape.rotation,
+      radius: shape.radius,
+      semi_major_axis: shape.semiMajorAxis,
+      semi_minor_axis: shape.semiMinorAxis,
+      filled: shape.filled,
+      overlapping: shape.overlapping,
+      color: shape.color,
+      track_id: shape.trackId,
+    };
+    return CSV_COLUMNS.map((column) => csvField(row[column])).join(",");
+  });
+  return [CSV_COLUMNS.join(","), ...rows].join("\n") + "\n";
+}
+
+// A COCO annotation file for any number of images, with every shape type
+// as a category (whether or not it was found), so files from different runs
+// share category IDs.
+export function toCoco(
+  images: { fileName: string; result: DetectionResult }[],
+  frame: CoordinateFrame = "pixels"
+): CocoDataset {
+  const annotations: CocoAnnotation[] = [];
+  images.forEach(({ result }, index) => {
+    for (const shape of result.shapes) {
+      annotations.push(
+        cocoAnnotation(shape, annotations.length + 1, index + 1, frame)
+      );
+    }
+  });
+  return {
+    info: {
+      description: "Shape detections",
+      date_created: new Date().toISOString(),
+    },
+    images: images.map(({ fileName, result }, index) => ({
+      id: index + 1,
+      file_name: fileName,
+      width: result.imageWidth,
+      height: result.imageHeight,
+    })),
+    categories: SHAPE_TYPES.map((type, index) => ({
+      id: index + 1,
+      name: type,
+      supercategory: "shape",
+    })),
+    annotations,
+  };
+}
+
+function cocoAnnotation(
+  shape: DetectedShape,
+  id: number,
+  imageId: number,
+  frame: CoordinateFrame
+): CocoAnnotation {
+  const box = shape.boundingBox;
+  const bbox: CocoAnnotation["bbox"] = [
+    round(box.x),
+    round(box.y),
+    round(box.width),
+    round(box.height),
+  ];
+  return {
+    id,
+    image_id: imageId,
+    category_id: SHAPE_TYPES.indexOf(shape.type) + 1,
+    bbox,
+    area: round(shape.area),
+    segmentation: [
+      shapeOutline(shape, frame).flatMap((p) => [round(p.x), round(p.y)]),
+    ],
+    iscrowd: 0,
+    score: round(shape.confidence),
+  };
+}
+
+// An SVG the size of the image with every shape drawn in its own color (the
+// detected fill color, with color segmentation) and no image behind it.
+export function toSvg(
+  result: DetectionResult,
+  frame: CoordinateFrame = "pixels"
+): string {
+  const elements = result.shapes.map((shape) => {
+    const fill = shape.color ?? TYPE_COLORS[shape.type];
+    // Outline-only shapes are drawn as outlines.
+    const paint = shape.filled
+      ? `fill="${fill}"`
+      : `fill="none" stroke="${fill}" stroke-width="2"`;
+    const center = toCanvas(shape.center, frame);
+    const cx = round(center.x);
+    const cy = round(center.y);
+    if (shape.type === "circle" && shape.radius !== undefined) {
+      const r = round(shape.radius);
+      return `  <circle cx="${cx}" cy="${cy}" r="${r}" ${paint}/>`;
+    }
+    if (shape.type === "ellipse" && shape.semiMajorAxis !== undefined) {
+      const rx = round(shape.semiMajorAxis);
+      const ry = round(shape.semiMinorAxis ?? shape.semiMajorAxis);
+      const rotation = round(shape.rotation ?? 0);
+      return (
+        `  <ellipse cx="${cx}" cy="${cy}" rx="${rx}" ry="${ry}" ` +
+        `transform="rotate(${rotation} ${cx} ${cy})" ${paint}/>`
+      );
+    }
+    const points = shapeOutline(shape, frame)
+      .map((p) => `${round(p.x)},${round(p.y)}`)
+      .join(" ");
+    return `  <polygon points="${points}" ${paint}/>`;
+  });
+  const { imageWidth: width, imageHeight: height } = result;
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" ` +
+      `height="${height}" viewBox="0 0 ${width} ${height}">`,
+    `  <rect width="${width}" height="${height}" fill="white"/>`,
+    ...elements,
+    "</svg>",
+    "",
+  ].join("\n");
+}
+
+/**
+ * The shape's outline as a polygon, in canvas coordinates: the refined
+ * corners of polygons and stars, a regular polygon along circles and
+ * ellipses, otherwise the traced contour, and the bounding box when there
+ * is nothing better.
+ */
+export function shapeOutline(
+  shape: DetectedShape,
+  frame: CoordinateFrame = "pixels"
+): Point[] {
+  const center = toCanvas(shape.center, frame);
+  if (shape.vertices && shape.vertices.length >= 3) {
+    return shape.vertices.map((p) => toCanvas(p, frame));
+  }
+  const rx = shape.radius ?? shape.semiMajorAxis;
+  const ry = shape.radius ?? shape.semiMinorAxis;
+  if (rx !== undefined && ry !== undefined) {
+    const angle = ((shape.rotation ?? 0) * Math.PI) / 180;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    return Array.from({ length: CURVE_SEGMENTS }, (_, i) => {
+      const t = (2 * Math.PI * i) / CURVE_SEGMENTS;
+      const x = rx * Math.cos(t);
+      const y = ry * Math.sin(t);
+      return {
+        x: center.x + x * cos - y * sin,
+        y: center.y + x * sin + y * cos,
+      };
+    });
+  }
+  if (shape.contour && shape.contour.length >= 3) {
+    return shape.contour.map((p) => toCanvas(p, frame));
+  }
+  const { x, y, width, height } = shape.boundingBox;
+  return [
+    { x, y },
+    { x: x + width, y },
+    { x: x + width, y: y + height },
+    { x, y: y + height },
+  ];
+}
+
+// Points measured in "pixels" are pixel indices; their pixel's center is
+// half a pixel further in canvas coordinates.
+function toCanvas(p: Point, frame: CoordinateFrame): Point {
+  const offset = frame === "pixels" ? 0.5 : 0;
+  return { x: p.x + offset, y: p.y + offset };
+}
+
+// Two decimals are finer than any measurement we make, and keep files small.
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function csvField(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  const text = typeof value === "number" ? String(round(value)) : String(value);
+  // Quote anything with a comma, quote or line break, doubling quotes.
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -0,0 +1,82 @@
+// Frames of a video file or an image sequence, one at a time, as ImageData
+// for the detector. Each frame is drawn onto the given canvas first, so the
+// page shows the frame that is being detected.
+
+import type { ShapeDetector } from "./shape-detector.js";
+
+export interface Frame {
+  image: ImageData;
+  index: number; // 0 for the first frame
+  time: number; // Seconds from the start
+}
+
+// Samples a video at 'frameRate' frames per second, by seeking to each
+// frame time in turn. Seeking is slower than playing, but we never skip a
+// frame because detection took longer than the frame lasts.
+export async function* videoFrames(
+  file: File,
+  canvas: HTMLCanvasElement,
+  frameRate: number
+): AsyncGenerator<Frame> {
+  const video = document.createElement("video");
+  video.muted = true;
+  video.preload = "auto";
+  const url = URL.createObjectURL(file);
+  try {
+    video.src = url;
+    await waitFor(video, "loadeddata");
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    const ctx = canvas.getContext("2d", { willReadFrequently: true });
+    if (!ctx) throw new Error("Could not get canvas context");
+
+    for (let index = 0; index / frameRate < video.duration; index++) {
+      const time = index / frameRate;
+      // Setting currentTime to where the video already is may not fire
+      // "seeked", so we only seek when we have to.
+      if (video.currentTime !== time) {
+        video.currentTime = time;
+        await waitFor(video, "seeked");
+      }
+      ctx.drawImage(video, 0, 0);
+      const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+      yield { image, index, time };
+    }
+  } finally {
+    video.removeAttribute("src");
+    video.load();
+    URL.revokeObjectURL(url);
+  }
+}
+
+// Loads image files as consecutive frames, 'frameRate' per second. Files
+// are taken in natural name order, so "frame2.png" comes before
+// "frame10.png".
+export async function* imageSequenceFrames(
+  files: File[],
+  decoder: ShapeDetector,
+  frameRate: number
+): AsyncGenerator<Frame> {
+  const sorted = [...files].sort((a, b) =>
+    a.name.localeCompare(b.name, undefined, { numeric: true })
+  );
+  for (const [index, file] of sorted.entries()) {
+    const image = await decoder.loadImage(file);
+    yield { image, index, time: index / frameRate };
+  }
+}
+
+function waitFor(video: HTMLVideoElement, event: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onEvent = () => {
+      video.removeEventListener("error", onError);
+      resolve();
+    };
+    const onError = () => {
+      video.removeEventListener(event, onEvent);
+      reject(new Error(`Could not read the video (${event})`));
+    };
+    video.addEventListener(event, onEvent, { once: true });
+    video.addEventListener("error", onError, { once: true });
+  });
+}
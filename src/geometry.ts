@@ -0,0 +1,530 @@
+// Geometry helpers shared by the detection steps that go beyond counting
+// vertices: fitting curves to contour points.
+
+import type { Point } from "./shape-detector.js";
+
+export interface CircleFit {
+  center: Point;
+  radius: number;
+  // Root-mean-square distance of the points from the fitted circle, in pixels.
+  rmsError: number;
+}
+
+// Least-squares circle fit (the algebraic "Kasa" method).
+// Solves x² + y² + Dx + Ey + F = 0 for D, E and F. Works on any arc, not just
+// a full circle, which is what we need for circles that are partly covered.
+export function fitCircle(points: Point[]): CircleFit | null {
+  if (points.length < 3) return null;
+
+  // Center the points first to keep the sums small and well conditioned.
+  let meanX = 0;
+  let meanY = 0;
+  for (const p of points) {
+    meanX += p.x;
+    meanY += p.y;
+  }
+  meanX /= points.length;
+  meanY /= points.length;
+
+  let sxx = 0,
+    syy = 0,
+    sxy = 0,
+    sx = 0,
+    sy = 0,
+    sxz = 0,
+    syz = 0,
+    sz = 0;
+  for (const p of points) {
+    const x = p.x - meanX;
+    const y = p.y - meanY;
+    const z = x * x + y * y;
+    sxx += x * x;
+    syy += y * y;
+    sxy += x * y;
+    sx += x;
+    sy += y;
+    sxz += x * z;
+    syz += y * z;
+    sz += z;
+  }
+
+  const solution = solveLinearSystem(
+    [
+      [sxx, sxy, sx],
+      [sxy, syy, sy],
+      [sx, sy, points.length],
+    ],
+    [-sxz, -syz, -sz]
+  );
+  if (!solution) return null;
+
+  const [d, e, f] = solution;
+  const cx = -d / 2;
+  const cy = -e / 2;
+  const radiusSquared = cx * cx + cy * cy - f;
+  if (radiusSquared <= 0) return null;
+  const radius = Math.sqrt(radiusSquared);
+
+  let squaredError = 0;
+  for (const p of points) {
+    const r = Math.hypot(p.x - meanX - cx, p.y - meanY - cy);
+    squaredError += (r - radius) ** 2;
+  }
+
+  return {
+    center: { x: cx + meanX, y: cy + meanY },
+    radius,
+    rmsError: Math.sqrt(squaredError / points.length),
+  };
+}
+
+export interface EllipseFit {
+  center: Point;
+  semiMajorAxis: number;
+  semiMinorAxis: number;
+  // Angle of the major axis in radians, measured from the x-axis towards
+  // the y-axis (clockwise on screen, since y points down). In [0, PI).
+  angle: number;
+  // Root-mean-square distance of the points from the fitted ellipse, in
+  // pixels (a close approximation, not the exact geometric distance).
+  rmsError: number;
+}
+
+// Least-squares ellipse fit.
+// Fits the general conic Ax² + Bxy + Cy² + Dx + Ey = 1 to the points and
+// returns null if the best conic isn't an ellipse (B² - 4AC must be < 0).
+export function fitEllipse(points: Point[]): EllipseFit | null {
+  if (points.length < 5) return null;
+
+  // Center and scale the points so the normal equations stay well
+  // conditioned, whatever the image coordinates are.
+  let meanX = 0;
+  let meanY = 0;
+  for (const p of points) {
+    meanX += p.x;
+    meanY += p.y;
+  }
+  meanX /= points.length;
+  meanY /= points.length;
+  let spread = 0;
+  for (const p of points) spread += (p.x - meanX) ** 2 + (p.y - meanY) ** 2;
+  const scale = Math.sqrt(spread / points.length);
+  if (scale === 0) return null;
+
+  const normal = Array.from({ length: 5 }, () => new Array(5).fill(0));
+  const rhs = new Array(5).fill(0);
+  for (const p of points) {
+    const x = (p.x - meanX) / scale;
+    const y = (p.y - meanY) / scale;
+    const row = [x * x, x * y, y * y, x, y];
+    for (let i = 0; i < 5; i++) {
+      rhs[i] += row[i];
+      for (let j = 0; j < 5; j++) normal[i][j] += row[i] * row[j];
+    }
+  }
+
+  const solution = solveLinearSystem(normal, rhs);
+  if (!solution) return null;
+  const [a, b, c, d, e] = solution;
+  if (b * b - 4 * a * c >= 0) return null; // A parabola or hyperbola
+
+  // Center: where the gradient of the conic is zero.
+  const det = 4 * a * c - b * b;
+  const cx = (b * e - 2 * c * d) / det;
+  const cy = (b * d - 2 * a * e) / det;
+  // Moving the origin to the center leaves Au² + Buv + Cv² = k.
+  const k = 1 - (a * cx * cx + b * cx * cy + c * cy * cy + d * cx + e * cy);
+  if (k <= 0) return null;
+
+  // The axes come from the eigenvalues of [[A, B/2], [B/2, C]]. The smaller
+  // eigenvalue belongs to the longer (major) axis.
+  const mean = (a + c) / 2;
+  const diff = Math.sqrt(((a - c) / 2) ** 2 + (b / 2) ** 2);
+  const small = mean - diff;
+  const large = mean + diff;
+  if (small <= 0) return null;
+
+  const semiMajor = Math.sqrt(k / small) * scale;
+  const semiMinor = Math.sqrt(k / large) * scale;
+  // The eigenvector for 'small' is (B/2, small - A). With B = 0 the axes are
+  // simply the x and y axes.
+  let angle =
+    Math.abs(b) > 1e-12
+      ? Math.atan2(small - a, b / 2)
+      : a <= c
+        ? 0
+        : Math.PI / 2;
+  angle = ((angle % Math.PI) + Math.PI) % Math.PI;
+
+  const center = { x: meanX + cx * scale, y: meanY + cy * scale };
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  let squaredError = 0;
+  for (const p of points) {
+    const dx = p.x - center.x;
+    const dy = p.y - center.y;
+    const u = dx * cos + dy * sin;
+    const v = -dx * sin + dy * cos;
+    const r = Math.hypot(u / semiMajor, v / semiMinor);
+    // Scale the "radial" error back into pixels along the ray from the center.
+    const distance =
+      r === 0 ? semiMinor : Math.hypot(dx, dy) * Math.abs(1 - 1 / r);
+    squaredError += distance * distance;
+  }
+
+  return {
+    center,
+    semiMajorAxis: semiMajor,
+    semiMinorAxis: semiMinor,
+    angle,
+    rmsError: Math.sqrt(squaredError / points.length),
+  };
+}
+
+// Gaussian elimination with partial pivoting. Returns null for a singular
+// (or nearly singular) system.
+export function solveLinearSystem(
+  matrix: number[][],
+  values: number[]
+): number[] | null {
+  const n = values.length;
+  const a = matrix.map((row, i) => [...row, values[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    if (Math.abs(a[pivot][col]) < 1e-12) return null;
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = a[row][col] / a[col][col];
+      for (let k = col; k <= n; k++) a[row][k] -= factor * a[col][k];
+    }
+  }
+
+  const result = new Array(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = a[row][n];
+    for (let k = row + 1; k < n; k++) sum -= a[row][k] * result[k];
+    result[row] = sum / a[row][row];
+  }
+  return result;
+}
+
+// Area of a simple polygon (shoelace formula). Always positive.
+export function polygonArea(points: Point[]): number {
+  let sum = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    sum += a.x * b.y - b.x * a.y;
+  }
+  return Math.abs(sum) / 2;
+}
+
+// RMS distance from 'points' to the outline of a closed polygon.
+export function polygonFitError(points: Point[], polygon: Point[]): number {
+  if (points.length === 0 || polygon.length < 2) return 0;
+  let sum = 0;
+  for (const p of points) {
+    let best = Infinity;
+    for (let i = 0; i < polygon.length; i++) {
+      const a = polygon[i];
+      const b = polygon[(i + 1) % polygon.length];
+      best = Math.min(best, segmentDistance(p, a, b));
+    }
+    sum += best * best;
+  }
+  return Math.sqrt(sum / points.length);
+}
+
+function segmentDistance(p: Point, a: Point, b: Point): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+  let t =
+    lengthSquared === 0
+      ? 0
+      : ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSquared;
+  t = Math.max(0, Math.min(1, t));
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+}
+
+// Center of mass of a (simple) polygon's area. Falls back to the mean of
+// the corners for degenerate polygons.
+export function polygonCentroid(points: Point[]): Point {
+  let sum = 0;
+  let cx = 0;
+  let cy = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    const cross = a.x * b.y - b.x * a.y;
+    sum += cross;
+    cx += (a.x + b.x) * cross;
+    cy += (a.y + b.y) * cross;
+  }
+  if (Math.abs(sum) < 1e-9) {
+    return {
+      x: points.reduce((total, p) => total + p.x, 0) / points.length,
+      y: points.reduce((total, p) => total + p.y, 0) / points.length,
+    };
+  }
+  return { x: cx / (3 * sum), y: cy / (3 * sum) };
+}
+
+// Convex hull (Andrew's monotone chain), in counter-clockwise order.
+export function convexHull(points: Point[]): Point[] {
+  if (points.length < 3) return [...points];
+  const sorted = [...points].sort((a, b) => a.x - b.x || a.y - b.y);
+  const cross = (o: Point, a: Point, b: Point) =>
+    (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+
+  const lower: Point[] = [];
+  for (const p of sorted) {
+    while (
+      lower.length >= 2 &&
+      cross(lower[lower.length - 2], lower[lower.length - 1], p) <= 0
+    ) {
+      lower.pop();
+    }
+    lower.push(p);
+  }
+
+  const upper: Point[] = [];
+  for (let i = sorted.length - 1; i >= 0; i--) {
+    const p = sorted[i];
+    while (
+      upper.length >= 2 &&
+      cross(upper[upper.length - 2], upper[upper.length - 1], p) <= 0
+    ) {
+      upper.pop();
+    }
+    upper.push(p);
+  }
+
+  // The last point of each half is the first point of the other.
+  return lower.slice(0, -1).concat(upper.slice(0, -1));
+}
+
+export interface Line {
+  point: Point; // A point on the line
+  direction: Point; // Unit vector along the line
+}
+
+// Total least squares line fit: the line through the centroid along the
+// points' principal direction.
+export function fitLine(points: Point[]): Line | null {
+  if (points.length < 2) return null;
+  let meanX = 0;
+  let meanY = 0;
+  for (const p of points) {
+    meanX += p.x;
+    meanY += p.y;
+  }
+  meanX /= points.length;
+  meanY /= points.length;
+
+  let sxx = 0,
+    sxy = 0,
+    syy = 0;
+  for (const p of points) {
+    const dx = p.x - meanX;
+    const dy = p.y - meanY;
+    sxx += dx * dx;
+    sxy += dx * dy;
+    syy += dy * dy;
+  }
+  if (sxx + syy === 0) return null;
+
+  const angle = Math.atan2(2 * sxy, sxx - syy) / 2;
+  return {
+    point: { x: meanX, y: meanY },
+    direction: { x: Math.cos(angle), y: Math.sin(angle) },
+  };
+}
+
+// Where two lines cross. Null when they are (nearly) parallel.
+export function intersectLines(a: Line, b: Line): Point | null {
+  const cross = a.direction.x * b.direction.y - a.direction.y * b.direction.x;
+  if (Math.abs(cross) < 1e-6) return null;
+  const dx = b.point.x - a.point.x;
+  const dy = b.point.y - a.point.y;
+  const t = (dx * b.direction.y - dy * b.direction.x) / cross;
+  return {
+    x: a.point.x + t * a.direction.x,
+    y: a.point.y + t * a.direction.y,
+  };
+}
+
+export interface OrientedBox {
+  center: Point;
+  width: number; // Along 'angle'; always the longer side
+  height: number;
+  angle: number; // Degrees in [0, 180), clockwise from the x-axis on screen
+  corners: Point[];
+}
+
+// Builds an oriented box from its center, size and angle (in radians).
+// Swaps the sides if needed so 'width' is the longer one.
+export function orientedBox(
+  center: Point,
+  width: number,
+  height: number,
+  angle: number
+): OrientedBox {
+  if (height > width) {
+    [width, height] = [height, width];
+    angle += Math.PI / 2;
+  }
+  angle = ((angle % Math.PI) + Math.PI) % Math.PI;
+
+  const ux = {
+    x: (Math.cos(angle) * width) / 2,
+    y: (Math.sin(angle) * width) / 2,
+  };
+  const uy = {
+    x: (-Math.sin(angle) * height) / 2,
+    y: (Math.cos(angle) * height) / 2,
+  };
+  return {
+    center,
+    width,
+    height,
+    angle: (angle * 180) / Math.PI,
+    corners: [
+      { x: center.x - ux.x - uy.x, y: center.y - ux.y - uy.y },
+      { x: center.x + ux.x - uy.x, y: center.y + ux.y - uy.y },
+      { x: center.x + ux.x + uy.x, y: center.y + ux.y + uy.y },
+      { x: center.x - ux.x + uy.x, y: center.y - ux.y + uy.y },
+    ],
+  };
+}
+
+// Minimum-area bounding box (rotating calipers). The best box always has
+// one side along an edge of the convex hull, so we only try those angles.
+export function minAreaRect(points: Point[]): OrientedBox | null {
+  const hull = convexHull(points);
+  if (hull.length < 3) return null;
+
+  let best: { area: number; angle: number; box: number[] } | null = null;
+  for (let i = 0; i < hull.length; i++) {
+    const a = hull[i];
+    const b = hull[(i + 1) % hull.length];
+    const angle = Math.atan2(b.y - a.y, b.x - a.x);
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+
+    let minU = Infinity,
+      maxU = -Infinity,
+      minV = Infinity,
+      maxV = -Infinity;
+    for (const p of hull) {
+      const u = p.x * cos + p.y * sin;
+      const v = -p.x * sin + p.y * cos;
+      minU = Math.min(minU, u);
+      maxU = Math.max(maxU, u);
+      minV = Math.min(minV, v);
+      maxV = Math.max(maxV, v);
+    }
+
+    const area = (maxU - minU) * (maxV - minV);
+    if (!best || area < best.area) {
+      best = { area, angle, box: [minU, maxU, minV, maxV] };
+    }
+  }
+
+  const [minU, maxU, minV, maxV] = best!.box;
+  const cos = Math.cos(best!.angle);
+  const sin = Math.sin(best!.angle);
+  const u = (minU + maxU) / 2;
+  const v = (minV + maxV) / 2;
+  return orientedBox(
+    { x: u * cos - v * sin, y: u * sin + v * cos },
+    maxU - minU,
+    maxV - minV,
+    best!.angle
+  );
+}
+
+// An axis-aligned box: (x, y) is its top-left corner.
+export interface PixelBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Intersection over union of two boxes (0 when they don't overlap).
+export function boxOverlap(a: PixelBox, b: PixelBox): number {
+  const width = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const height = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  if (width <= 0 || height <= 0) return 0;
+  const intersection = width * height;
+  return (
+    intersection / (a.width * a.height + b.width * b.height - intersection)
+  );
+}
+
+// Intersection over union of two simple polygons (convex or not), 0 when
+// they don't overlap. We cut both with horizontal lines (four per pixel, or
+// 2000 for very tall shapes) and add up, line by line, the length of the
+// spans inside each and inside both, so the result is exact across and
+// sampled along y.
+export function polygonOverlap(a: Point[], b: Point[]): number {
+  if (a.length < 3 || b.length < 3) return 0;
+  let top = Infinity;
+  let bottom = -Infinity;
+  for (const p of [...a, ...b]) {
+    top = Math.min(top, p.y);
+    bottom = Math.max(bottom, p.y);
+  }
+  const step = Math.max(0.25, (bottom - top) / 2000);
+  let inA = 0;
+  let inB = 0;
+  let inBoth = 0;
+  for (let y = top + step / 2; y < bottom; y += step) {
+    const spansA = scanlineSpans(a, y);
+    const spansB = scanlineSpans(b, y);
+    inA += spanLength(spansA);
+    inB += spanLength(spansB);
+    // Both span lists are sorted, so we walk them together.
+    let i = 0;
+    let j = 0;
+    while (i < spansA.length && j < spansB.length) {
+      const [startA, endA] = spansA[i];
+      const [startB, endB] = spansB[j];
+      inBoth += Math.max(0, Math.min(endA, endB) - Math.max(startA, startB));
+      if (endA < endB) i++;
+      else j++;
+    }
+  }
+  const union = inA + inB - inBoth;
+  return union > 0 ? inBoth / union : 0;
+}
+
+// The stretches of the line at height y that lie inside the polygon
+// (even-odd rule), left to right.
+function scanlineSpans(polygon: Point[], y: number): [number, number][] {
+  const crossings: number[] = [];
+  for (let i = 0; i < polygon.length; i++) {
+    const p = polygon[i];
+    const q = polygon[(i + 1) % polygon.length];
+    // Half-open in y, so a line through a corner counts it once.
+    if (p.y <= y !== q.y <= y) {
+      crossings.push(p.x + ((y - p.y) / (q.y - p.y)) * (q.x - p.x));
+    }
+  }
+  crossings.sort((u, v) => u - v);
+  const spans: [number, number][] = [];
+  for (let i = 0; i + 1 < crossings.length; i += 2) {
+    spans.push([crossings[i], crossings[i + 1]]);
+  }
+  return spans;
+}
+
+function spanLength(spans: [number, number][]): number {
+  return spans.reduce((sum, [start, end]) => sum + end - start, 0);
+}
@@ -0,0 +1,240 @@
+// Connected-component labeling on flat typed arrays.
+// We use the classic two-pass algorithm: the first pass gives every pixel a
+// provisional label from its already-visited neighbors and records which
+// labels touch in a union-find; the second pass replaces each provisional
+// label with its final one. Blob statistics are summed up per provisional
+// label during the first pass and merged along with the labels, so we never
+// have to collect the pixels of a blob. Both passes are linear in the
+// number of pixels.
+
+import type { Point } from "./shape-detector.js";
+
+// One segment ID per pixel, row by row. 0 is background; pixels with the
+// same non-zero ID that touch (8-connected) form one component.
+export interface SegmentMap {
+  data: Uint8Array;
+  width: number;
+  height: number;
+}
+
+export interface Region {
+  area: number; // Number of pixels
+  center: Point; // Mean of the pixel coordinates
+  boundingBox: { x: number; y: number; width: number; height: number };
+  start: Point; // Top-most, then left-most pixel
+}
+
+export interface Component extends Region {
+  label: number; // Its value in the label map (1-based)
+  segment: number;
+}
+
+export interface Labeling {
+  // Component label of every pixel, row by row (0 for background).
+  labels: Int32Array;
+  // Ordered by their top-most, left-most pixel, like a row-by-row scan
+  // finds them.
+  components: Component[];
+}
+
+export function labelComponents(segments: SegmentMap): Labeling {
+  const { data, width, height } = segments;
+  const labels = new Int32Array(width * height);
+  const stats = new RegionStats();
+  const parent = new GrowableInt32Array();
+  parent.push(0); // Label 0 is the background
+
+  const find = (label: number): number => {
+    while (parent.data[label] !== label) {
+      parent.data[label] = parent.data[parent.data[label]];
+      label = parent.data[label];
+    }
+    return label;
+  };
+  const union = (a: number, b: number): number => {
+    a = find(a);
+    b = find(b);
+    if (a === b) return a;
+    // The lower label (the one found first) stays the root.
+    if (b < a) [a, b] = [b, a];
+    parent.data[b] = a;
+    return a;
+  };
+
+  // --- Pass 1: provisional labels and per-label statistics ---
+  let segment = 0;
+  let label = 0;
+  const visit = (n: number) => {
+    if (data[n] !== segment || labels[n] === label) return;
+    label = label === 0 ? labels[n] : union(label, labels[n]);
+  };
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      segment = data[i];
+      if (segment === 0) continue;
+
+      // The neighbors a row-by-row scan has already visited: W, NW, N, NE.
+      label = 0;
+      if (x > 0) visit(i - 1);
+      if (y > 0) {
+        if (x > 0) visit(i - width - 1);
+        visit(i - width);
+        if (x < width - 1) visit(i - width + 1);
+      }
+
+      if (label === 0) {
+        label = parent.length;
+        parent.push(label);
+        stats.addRegion(i);
+      }
+      labels[i] = label;
+      stats.add(label, x, y);
+    }
+  }
+
+  // --- Merge the statistics of connected labels into their roots ---
+  for (let label = 1; label < parent.length; label++) {
+    const root = find(label);
+    if (root !== label) stats.merge(label, root);
+  }
+
+  // --- Pass 2: final labels, numbered in scan order ---
+  // Roots are always the lowest label of their set, which is also the one
+  // created first, so numbering the roots in order keeps the scan order.
+  const finalLabel = new Int32Array(parent.length);
+  const components: Component[] = [];
+  for (let label = 1; label < parent.length; label++) {
+    if (find(label) !== label) continue;
+    finalLabel[label] = components.length + 1;
+    const start = stats.startOf(label);
+    components.push({
+      label: components.length + 1,
+      segment: data[start],
+      ...stats.region(label, width),
+    });
+  }
+  for (let i = 0; i < labels.length; i++) {
+    if (labels[i] !== 0) labels[i] = finalLabel[find(labels[i])];
+  }
+
+  return { labels, components };
+}
+
+const INT32_MAX = 0x7fffffff;
+
+// Running pixel statistics for numbered regions, in typed arrays that grow
+// as regions are added. Region numbers start at 1.
+export class RegionStats {
+  private area = new GrowableInt32Array();
+  private sumX = new GrowableFloat64Array();
+  private sumY = new GrowableFloat64Array();
+  private minX = new GrowableInt32Array();
+  private minY = new GrowableInt32Array();
+  private maxX = new GrowableInt32Array();
+  private maxY = new GrowableInt32Array();
+  private start = new GrowableInt32Array(); // Pixel index of the first pixel
+
+  constructor() {
+    this.addRegion(-1); // Region 0 is unused
+  }
+
+  get count(): number {
+    return this.area.length - 1;
+  }
+
+  // Starts a new, empty region whose first pixel (in scan order) is at
+  // pixel index 'start'.
+  addRegion(start: number): void {
+    this.area.push(0);
+    this.sumX.push(0);
+    this.sumY.push(0);
+    this.minX.push(INT32_MAX);
+    this.minY.push(INT32_MAX);
+    this.maxX.push(-1);
+    this.maxY.push(-1);
+    this.start.push(start);
+  }
+
+  add(region: number, x: number, y: number): void {
+    this.area.data[region]++;
+    this.sumX.data[region] += x;
+    this.sumY.data[region] += y;
+    if (x < this.minX.data[region]) this.minX.data[region] = x;
+    if (y < this.minY.data[region]) this.minY.data[region] = y;
+    if (x > this.maxX.data[region]) this.maxX.data[region] = x;
+    if (y > this.maxY.data[region]) this.maxY.data[region] = y;
+  }
+
+  // Adds region 'from' to region 'into'. 'into' must have started earlier.
+  merge(from: number, into: number): void {
+    this.area.data[into] += this.area.data[from];
+    this.sumX.data[into] += this.sumX.data[from];
+    this.sumY.data[into] += this.sumY.data[from];
+    this.minX.data[into] = Math.min(this.minX.data[into], this.minX.data[from]);
+    this.minY.data[into] = Math.min(this.minY.data[into], this.minY.data[from]);
+    this.maxX.data[into] = Math.max(this.maxX.data[into], this.maxX.data[from]);
+    this.maxY.data[into] = Math.max(this.maxY.data[into], this.maxY.data[from]);
+  }
+
+  startOf(region: number): number {
+    return this.start.data[region];
+  }
+
+  // The region's statistics. 'width' is the row length the start index
+  // was counted in; 'offset' moves the coordinates (for regions that were
+  // counted in a cut-out of the image).
+  region(region: number, width: number, offset: Point = { x: 0, y: 0 }): Region {
+    const area = this.area.data[region];
+    const start = this.start.data[region];
+    const minX = this.minX.data[region];
+    const minY = this.minY.data[region];
+    return {
+      area,
+      center: {
+        x: this.sumX.data[region] / area + offset.x,
+        y: this.sumY.data[region] / area + offset.y,
+      },
+      boundingBox: {
+        x: minX + offset.x,
+        y: minY + offset.y,
+        width: this.maxX.data[region] - minX + 1,
+        height: this.maxY.data[region] - minY + 1,
+      },
+      start: {
+        x: (start % width) + offset.x,
+        y: Math.floor(start / width) + offset.y,
+      },
+    };
+  }
+}
+
+// A typed array with push(), doubling its buffer when full. 'data' may be
+// longer than 'length'.
+class GrowableInt32Array {
+  data = new Int32Array(1024);
+  length = 0;
+
+  push(value: number): void {
+    if (this.length === this.data.length) {
+      const bigger = new Int32Array(this.data.length * 2);
+      bigger.set(this.data);
+      this.data = bigger;
+    }
+    this.data[this.length++] = value;
+  }
+}
+
+class GrowableFloat64Array {
+  data = new Float64Array(1024);
+  length = 0;
+
+  push(value: number): void {
+    if (this.length === this.data.length) {
+      const bigger = new Float64Array(this.data.length * 2);
+      bigger.set(this.data);
+      this.data = bigger;
+    }
+    this.data[this.length++] = value;
+  }
+}
@@ -1,564 +1,58 @@
 import "./style.css";
-import { SelectionManager } from "./ui-utils.js";
+import { ShapeDetector } from "./shape-detector.js";
+import type { DetectedShape, DetectionResult } from "./shape-detector.js";
+import { DetectionWorker } from "./detection-worker.js";
+import { SelectionManager, downloadFile } from "./ui-utils.js";
 import { EvaluationManager } from "./evaluation-manager.js";
-
-export interface Point {
-  x: number;
-  y: number;
-}
-
-export interface DetectedShape {
-  type: "circle" | "triangle" | "rectangle" | "pentagon" | "star";
-  confidence: number;
-  boundingBox: {
-    x: number;
-    y: number;
-    width: number;
-    height: number;
-  };
-  center: Point;
-  area: number;
-}
-
-export interface DetectionResult {
-  shapes: DetectedShape[];
-  processingTime: number;
-  imageWidth: number;
-  imageHeight: number;
-}
-
-// Define a helper structure for our internal blob analysis
-interface Blob {
-  id: number; // A unique ID for each blob
-  pixels: Point[]; // List of all pixels in the blob
-  area: number; // Total count of pixels
-  boundingBox: { x: number; y: number; width: number; height: number }; // The box around the blob
-  center: { x: number; y: number }; // The average center point
-}
-
-
-//ShapeDetector Class
-// This class contains the full implementation for detecting shapes.
-// All the core logic for the challenge is inside this class.
- 
-export class ShapeDetector {
-  private canvas: HTMLCanvasElement;
-  private ctx: CanvasRenderingContext2D;
-  private width: number = 0;
-  private height: number = 0;
-
-  constructor(canvas: HTMLCanvasElement) {
-    this.canvas = canvas;
-    // We add 'willReadFrequently' for a performance boost, as we'll be reading pixel data.
-    this.ctx = canvas.getContext("2d", { willReadFrequently: true })!;
-  }
-
-  /**
-   * MAIN ALGORITHM
-   * This is the core function that runs the entire 4-step detection pipeline.
-   * @param imageData - The raw pixel data from the canvas.
-   * @returns A promise that resolves to the DetectionResult.
-   */
-  async detectShapes(imageData: ImageData): Promise<DetectionResult> {
-    const startTime = performance.now();
-
-    this.width = imageData.width;
-    this.height = imageData.height;
-
-    // --- STEP 1: Binarize Image ---
-    // Convert the full-color image into a simple 0 (background) or 1 (shape) grid.
-    // We use 128 as the threshold, which worked best for the noisy image.
-    const binaryImage = this.binarize(imageData, 128);
-
-    // --- STEP 2: Find Blobs (Connected Component Analysis) ---
-    // Scan the binary image and group all touching '1's into 'blobs'.
-    // Each blob is one potential shape.
-    const blobs = this.findBlobs(binaryImage);
-
-    // --- STEP 3: Analyze each Blob ---
-    const shapes: DetectedShape[] = [];
-    for (const blob of blobs) {
-      // =================================================================
-      // === COMMENT BLOCK: Explaining the Filter Tuning Process ===
-      //
-      // This filter is critical for ignoring "noise" (like the lines
-      // in 'no_shapes.png') while keeping real, small shapes.
-      //
-      // --- Our Tuning Process ---
-      //
-      // 1. FIRST ATTEMPT (e.g., < 100):
-      //    Our first value was too low. It incorrectly detected the
-      //    noise lines in 'no_shapes.png' and 'complex_scene.png'
-      //    as "Triangle" shapes (areas were ~202px and ~322px).
-      //
-      // 2. SECOND ATTEMPT (< 500):
-      //    We tried a high value. This successfully ignored the noise
-      //    lines, but it was *too high*. It incorrectly filtered out
-      //    the *real* small triangle in the 'edge_cases.png' image.
-      //
-      // 3. FINAL VALUE (< 350):
-      //    This value is the perfect "sweet spot" we found after testing.
-      //    - It IS high enough to block the noise lines (max area ~322px).
-      //    - It IS low enough to keep the real small triangle (area ~375px).
-      //
-      // =================================================================
-      if (blob.area < 350) continue;
-
-      // --- STEP 4: Trace Contour ---
-      // Find the outer boundary (perimeter) of the blob.
-      const contour = this.traceContour(blob, binaryImage);
-      // If the contour is too short, it's probably not a real shape.
-      if (contour.length < 20) continue;
-
-      // --- STEP 5: Classify the Shape ---
-      // Analyze the contour's geometry to figure out what shape it is.
-      const detection = this.analyzeContour(contour, blob);
-      if (detection) {
-        shapes.push(detection); // Add it to our final list
-      }
-    }
-
-    const processingTime = performance.now() - startTime;
-
-    // Return the final list of shapes in the required format.
-    return {
-      shapes,
-      processingTime,
-      imageWidth: imageData.width,
-      imageHeight: imageData.height,
-    };
-  }
-
-  
-   // Loads an image file onto the hidden canvas and returns its ImageData.
-  
-  loadImage(file: File): Promise<ImageData> {
-    return new Promise((resolve, reject) => {
-      const img = new Image();
-      img.onload = () => {
-        this.canvas.width = img.width;
-        this.canvas.height = img.height;
-        this.ctx.drawImage(img, 0, 0);
-        // Set willReadFrequently for performance
-        const ctxForReading = this.canvas.getContext("2d", {
-          willReadFrequently: true,
-        });
-        if (!ctxForReading) return reject("Could not get canvas context");
-        const imageData = ctxForReading.getImageData(
-          0,
-          0,
-          img.width,
-          img.height
-        );
-        resolve(imageData);
-      };
-      img.onerror = reject;
-      img.src = URL.createObjectURL(file);
-    });
-  }
-
-  
-  // ** PRIVATE HELPER METHODS (The Algorithm) ** //
-  
-
-  
-  //Step 1: Grayscale and Binarize
-  //Converts RGBA pixel data to a simple 0/1 grid.
-   
-  private binarize(imageData: ImageData, threshold: number): number[][] {
-    const data = imageData.data;
-    // Create an empty 2D array filled with 0s
-    const binaryImage: number[][] = Array(this.height)
-      .fill(0)
-      .map(() => Array(this.width).fill(0));
-
-    for (let y = 0; y < this.height; y++) {
-      for (let x = 0; x < this.width; x++) {
-        const i = (y * this.width + x) * 4; // Each pixel has 4 values (R,G,B,A)
-        const r = data[i];
-        const g = data[i + 1];
-        const b = data[i + 2];
-        const a = data[i + 3]; // Alpha (transparency)
-
-        // Convert to grayscale using the 'luminosity' formula
-        const gray = 0.21 * r + 0.72 * g + 0.07 * b;
-
-        // --- THIS IS THE CRITICAL LOGIC ---
-        // If the pixel is dark enough (gray < threshold) and not transparent (a > 128),
-        // we mark it as '1' (a shape pixel).
-        if (gray < threshold && a > 128) {
-          binaryImage[y][x] = 1; // Shape pixel
-        }
-      }
-    }
-    return binaryImage;
-  }
-
-  /**
-   * Step 2: Find Blobs (Connected Component Analysis)
-   * Uses a Breadth-First Search (BFS) algorithm to find all groups of connected '1's.
-   */
-  private findBlobs(binaryImage: number[][]): Blob[] {
-    // 'labels' grid keeps track of which blob each pixel belongs to.
-    const labels: number[][] = Array(this.height)
-      .fill(0)
-      .map(() => Array(this.width).fill(0));
-    const blobs: Record<number, Point[]> = {}; // Stores pixels for each blob ID
-    let currentLabel = 1; // We start at blob ID 1
-
-    const queue: Point[] = []; // Queue for our BFS
-
-    for (let y = 0; y < this.height; y++) {
-      for (let x = 0; x < this.width; x++) {
-        // If this is a shape pixel (1) and hasn't been labeled yet (0)...
-        if (binaryImage[y][x] === 1 && labels[y][x] === 0) {
-          // ...we have found a new blob!
-          blobs[currentLabel] = [];
-          queue.push({ x, y });
-          labels[y][x] = currentLabel;
-
-          // Start the BFS to find all connected pixels
-          while (queue.length > 0) {
-            const pixel = queue.shift()!;
-            blobs[currentLabel].push(pixel);
-
-            // Check all 8 neighbors (Moore neighborhood)
-            for (let ny = -1; ny <= 1; ny++) {
-              for (let nx = -1; nx <= 1; nx++) {
-                if (nx === 0 && ny === 0) continue; // Skip self
-
-                const neighbor: Point = { x: pixel.x + nx, y: pixel.y + ny };
-
-                // Check if neighbor is valid, is a shape pixel, and is unlabeled
-                if (
-                  neighbor.y >= 0 &&
-                  neighbor.y < this.height &&
-                  neighbor.x >= 0 &&
-                  neighbor.x < this.width &&
-                  binaryImage[neighbor.y][neighbor.x] === 1 &&
-                  labels[neighbor.y][neighbor.x] === 0
-                ) {
-                  labels[neighbor.y][neighbor.x] = currentLabel;
-                  queue.push(neighbor); // Add to queue to explore its neighbors
-                }
-              }
-            }
-          }
-          currentLabel++; // Move to the next blob ID
-        }
-      }
-    }
-
-    // Convert our blob pixel data into the final Blob objects with metrics
-    return Object.entries(blobs).map(([id, pixels]) => {
-      return {
-        id: Number(id),
-        pixels,
-        ...this.calculateBlobMetrics(pixels),
-      };
-    });
-  }
-
-  
-  //Helper for `findBlobs` to calculate key metrics for a blob.
-   
-  private calculateBlobMetrics(pixels: Point[]): Omit<Blob, "id" | "pixels"> {
-    let minX = Infinity,
-      minY = Infinity,
-      maxX = -Infinity,
-      maxY = -Infinity;
-    let sumX = 0,
-      sumY = 0;
-
-    for (const p of pixels) {
-      sumX += p.x;
-      sumY += p.y;
-      // Find the min/max X and Y to create the bounding box
-      if (p.x < minX) minX = p.x;
-      if (p.x > maxX) maxX = p.x;
-      if (p.y < minY) minY = p.y;
-      if (p.y > maxY) maxY = p.y;
-    }
-
-    const area = pixels.length; // Area is simply the number of pixels
-    return {
-      area: area,
-      // Center is the average of all pixel coordinates
-      center: { x: sumX / area, y: sumY / area },
-      boundingBox: {
-        x: minX,
-        y: minY,
-        width: maxX - minX + 1,
-        height: maxY - minY + 1,
-      },
-    };
-  }
-
-  // Step 4: Trace Contour (Moore-Neighbor Tracing)
-  // Finds the outer boundary of a blob by "walking" around its edge.
-  
-  private traceContour(blob: Blob, binaryImage: number[][]): Point[] {
-    const contour: Point[] = [];
-
-    // Find a reliable starting point (top-most, then left-most pixel)
-    let startPoint = blob.pixels[0];
-    for (const p of blob.pixels) {
-      if (p.y < startPoint.y || (p.y === startPoint.y && p.x < startPoint.x)) {
-        startPoint = p;
-      }
-    }
-
-    let current = startPoint;
-    let direction = 0; // 0:N, 1:NE, 2:E, 3:SE, 4:S, 5:SW, 6:W, 7:NW
-
-    // Directions to check, in clockwise order
-    const neighbors = [
-      { x: 0, y: -1 }, // N
-      { x: 1, y: -1 }, // NE
-      { x: 1, y: 0 }, // E
-      { x: 1, y: 1 }, // SE
-      { x: 0, y: 1 }, // S
-      { x: -1, y: 1 }, // SW
-      { x: -1, y: 0 }, // W
-      { x: -1, y: -1 }, // NW
-    ];
-
-    do {
-      contour.push(current);
-      // We start checking from the neighbor "behind" where we came from.
-      // This ensures we always "hug the left wall".
-      let startDir = (direction + 6) % 8; // (direction - 2 + 8) % 8
-
-      let next: Point | null = null;
-      for (let i = 0; i < 8; i++) {
-        const dirIndex = (startDir + i) % 8;
-        const checkDir = neighbors[dirIndex];
-        const checkPt = { x: current.x + checkDir.x, y: current.y + checkDir.y };
-
-        // Is this neighbor a valid shape pixel?
-        if (
-          checkPt.y >= 0 &&
-          checkPt.y < this.height &&
-          checkPt.x >= 0 &&
-          checkPt.x < this.width &&
-          binaryImage[checkPt.y][checkPt.x] === 1
-        ) {
-          next = checkPt; // This is our next step
-          direction = dirIndex; // Remember which direction we went
-          break;
-        }
-      }
-
-      if (next) {
-        current = next;
-      } else {
-        break; // Should not happen on a multi-pixel blob
-      }
-
-      // We stop when we get back to the start point
-    } while (current.x !== startPoint.x || current.y !== startPoint.y);
-
-    return contour;
-  }
-
-  
-  // ** Step 5: Analyze Contour & Classify ** //
-
-  //This is the "brains" of the operation. It decides what shape a contour is.
-  
-  private analyzeContour(contour: Point[], blob: Blob): DetectedShape | null {
-    // --- 5a. Simplify Contour ---
-    // A contour has 1000s of points. We need to find just the "corners" (vertices).
-    // We use the Ramer-Douglas-Peucker (RDP) algorithm to simplify the line.
-    // 'epsilon' (2.0) is the max distance a point can be from the simplified line.
-    // We found 2.0 works well for the test images.
-    const vertices = this.simplifyContour(contour, 2.0);
-    let numVertices = vertices.length;
-
-    // RDP on a closed loop often counts the start/end point twice.
-    // If the first and last vertex are the same, we count it as one.
-    if (
-      numVertices > 2 &&
-      this.distance(vertices[0], vertices[vertices.length - 1]) < 10
-    ) {
-      numVertices--; // Correct for closed loop
-    }
-
-    let shape: DetectedShape["type"] | null = null;
-    let confidence = 0.7; // Base confidence
-
-    // --- 5b. Calculate Circularity ---
-    const perimeter = this.getPerimeter(contour);
-    const area = blob.area; // Use the accurate pixel-counted area
-    // This formula (Polsby-Popper) checks how "round" a shape is.
-    // A perfect circle will have a value of 1.0.
-    const circularity = (4 * Math.PI * area) / (perimeter * perimeter);
-
-    // --- 5c. Classification Logic --- 
-    // We check for circle first, as it's the most distinct.
-    if (circularity > 0.88) {
-      shape = "circle";
-      confidence = circularity; // Circularity is a great confidence score
-    } else if (numVertices === 3) {
-      shape = "triangle";
-      confidence = 0.9;
-    } else if (numVertices === 4) {
-      shape = "rectangle"; // Per the requirements, squares are rectangles.
-      confidence = 0.9;
-    } else if (numVertices === 5) {
-      shape = "pentagon";
-      confidence = 0.85;
-    } else if (numVertices === 10) {
-      // A 5-point star is special, it has 10 vertices (5 inner, 5 outer).
-      if (this.isStar(vertices, blob.center)) {
-        shape = "star";
-        confidence = 0.9;
-      }
-    }
-
-    // If we couldn't classify it, we return null.
-    if (shape === null) {
-      return null;
-    }
-
-    // Make sure confidence is between 0.5 and 1.0
-    if (confidence > 1.0) confidence = 1.0;
-    if (confidence < 0.5) confidence = 0.5;
-
-    // Return the final object in the format the evaluator expects.
-    return {
-      type: shape,
-      confidence: confidence,
-      boundingBox: blob.boundingBox,
-      center: blob.center,
-      area: blob.area,
-    };
-  }
-
-
-  // ** GEOMETRY HELPER FUNCTIONS ** //
-  
-
-  
-   //Standard distance formula.
-   
-  private distance(p1: Point, p2: Point): number {
-    return Math.sqrt((p1.x - p2.x) ** 2 + (p1.y - p2.y) ** 2);
-  }
-
-  
-  // Ramer-Douglas-Peucker (RDP) algorithm implementation.
-  // This recursively simplifies a line by finding the point farthest
-  // from the line segment and splitting there.
-   
-
-  private simplifyContour(points: Point[], epsilon: number): Point[] {
-    if (points.length < 3) return points; // Cannot simplify a line
-
-    let dmax = 0;
-    let index = 0;
-    const end = points.length - 1;
-
-    // Find the point that is "farthest" from the line (start -> end)
-    for (let i = 1; i < end; i++) {
-      const d = this.perpendicularDistance(points[i], points[0], points[end]);
-      if (d > dmax) {
-        index = i;
-        dmax = d;
-      }
-    }
-
-    let results: Point[];
-    // If the farthest point is "far enough" (dmax > epsilon)...
-    if (dmax > epsilon) {
-      // ...we recursively simplify the two new lines.
-      const recResults1 = this.simplifyContour(
-        points.slice(0, index + 1),
-        epsilon
-      );
-      const recResults2 = this.simplifyContour(points.slice(index), epsilon);
-      // And join the results
-      results = recResults1.slice(0, recResults1.length - 1).concat(recResults2);
-    } else {
-      // Otherwise, all points are "close enough", so we just keep the start and end.
-      results = [points[0], points[end]];
-    }
-    return results;
-  }
-
-  
-  // Finds the perpendicular distance from a point to a line segment.
-  //Helper for RDP.
-   
-  private perpendicularDistance(p: Point, a: Point, b: Point): number {
-    const { x: px, y: py } = p;
-    const { x: ax, y: ay } = a;
-    const { x: bx, y: by } = b;
-
-    const dx = bx - ax;
-    const dy = by - ay;
-    const magSqr = dx * dx + dy * dy;
-
-    if (magSqr === 0) return this.distance(p, a); // Line is just a point
-
-    const u = ((px - ax) * dx + (py - ay) * dy) / magSqr;
-
-    let ix, iy; // Closest point on the line
-    if (u < 0) {
-      ix = ax;
-      iy = ay;
-    } else if (u > 1) {
-      ix = bx;
-      iy = by;
-    } else {
-      ix = ax + u * dx;
-      iy = ay + u * dy;
-    }
-    return this.distance(p, { x: ix, y: iy });
-  }
-
-  //Calculates the total length of a contour.
-   
-  private getPerimeter(contour: Point[]): number {
-    let perimeter = 0;
-    for (let i = 0; i < contour.length; i++) {
-      const p1 = contour[i];
-      const p2 = contour[(i + 1) % contour.length]; // Wrap around to the start
-      perimeter += this.distance(p1, p2);
-    }
-    return perimeter;
-  }
-
-  
-   // Specific check for a 5-point star (which has 10 vertices).
-   // It checks if 5 vertices are close to the center and 5 are far away.
-   
-  private isStar(vertices: Point[], center: Point): boolean {
-    if (vertices.length < 10) return false;
-
-    // Get the distance of every vertex from the center
-    const distances = vertices
-      .map((v) => this.distance(v, center))
-      .sort((a, b) => a - b);
-
-    // We assume the 5 smallest are inner points and 5 largest are outer
-    const innerPoints = distances.slice(0, 5);
-    const outerPoints = distances.slice(distances.length - 5);
-
-    // Find the average radius of each group
-    const innerRadius = innerPoints.reduce((a, b) => a + b, 0) / 5;
-    const outerRadius = outerPoints.reduce((a, b) => a + b, 0) / 5;
-
-    // In a star, the inner radius should be much smaller than the outer radius
-    const ratio = innerRadius / outerRadius;
-
-    return ratio < 0.7; // If the ratio is small, it's a star
-  }
-}
+import { SequenceManager } from "./sequence-manager.js";
+import { OverlayRenderer } from "./overlay.js";
+import type { OverlayLayer } from "./overlay.js";
+import { DebugView } from "./debug-view.js";
+import type { DebugStage } from "./debug-view.js";
+import { exportResult } from "./export.js";
+import { AnnotationEditor } from "./annotation-editor.js";
+import { SnapshotView } from "./snapshot-view.js";
+import type { ExportFormat } from "./export.js";
+
+export { ShapeDetector } from "./shape-detector.js";
+export { DetectionWorker } from "./detection-worker.js";
+export { ShapeTracker } from "./tracking.js";
+export type { TrackerOptions, TrackStats } from "./tracking.js";
+export { OverlayRenderer } from "./overlay.js";
+export type { OverlayLayer } from "./overlay.js";
+export { exportResult, toCoco, toCsv, toSvg } from "./export.js";
+export type { CocoDataset, ExportFormat } from "./export.js";
+export { AnnotationEditor } from "./annotation-editor.js";
+export { SnapshotStore, compareSnapshots } from "./evaluation-snapshots.js";
+export type {
+  EvaluationSnapshot,
+  SnapshotComparison,
+} from "./evaluation-snapshots.js";
+export type {
+  BlobDebug,
+  BlobRejection,
+  DetectionDebug,
+} from "./detection-debug.js";
+// The evaluation modules load on demand, so only their types are here.
+export type { EvaluationDataset } from "./evaluation-dataset.js";
+export type {
+  EvaluationMetric,
+  ImageEvaluation,
+} from "./evaluation-metrics.js";
+export type { OverallResults, TestResult } from "./evaluation.js";
+export type {
+  Point,
+  DetectedShape,
+  DetectionControl,
+  DetectionProgress,
+  DetectionResult,
+} from "./shape-detector.js";
 
 
 class ShapeDetectionApp {
-  private detector: ShapeDetector;
+  private detector: ShapeDetector; // Only decodes images onto the canvas
+  private detectionWorker: DetectionWorker;
+  private currentDetection: AbortController | null = null;
   private imageInput: HTMLInputElement;
   private resultsDiv: HTMLDivElement;
   private testImagesDiv: HTMLDivElement;
@@ -566,12 +60,31 @@ class ShapeDetectionApp {
   private evaluationResultsDiv: HTMLDivElement;
   private selectionManager: SelectionManager;
   private evaluationManager: EvaluationManager;
+  private sequenceInput: HTMLInputElement;
+  private frameRateInput: HTMLInputElement;
+  private sequenceManager: SequenceManager;
+  private overlay: OverlayRenderer;
+  private selectedShape: number | null = null;
+  private debugToggle: HTMLInputElement;
+  private debugView: DebugView;
+  // The image on the canvas, so debug mode can re-run it.
+  private currentImage: ImageData | null = null;
+  private currentFileName = "image";
+  private currentResult: DetectionResult | null = null;
+  private exportButtons: NodeListOf<HTMLButtonElement>;
+  private annotationEditor: AnnotationEditor;
 
   constructor() {
     const canvas = document.getElementById(
       "originalCanvas"
     ) as HTMLCanvasElement;
     this.detector = new ShapeDetector(canvas);
+    // The overlay draws the traced contours, so we ask for them.
+    this.detectionWorker = new DetectionWorker({ includeContours: true });
+    this.overlay = new OverlayRenderer(
+      document.getElementById("overlayCanvas") as HTMLCanvasElement,
+      canvas
+    );
 
     this.imageInput = document.getElementById("imageInput") as HTMLInputElement;
     this.resultsDiv = document.getElementById("results") as HTMLDivElement;
@@ -585,11 +98,48 @@ class ShapeDetectionApp {
       "evaluationResults"
     ) as HTMLDivElement;
 
+    this.sequenceInput = document.getElementById(
+      "sequenceInput"
+    ) as HTMLInputElement;
+    this.frameRateInput = document.getElementById(
+      "frameRateInput"
+    ) as HTMLInputElement;
+
+    this.debugToggle = document.getElementById(
+      "debugToggle"
+    ) as HTMLInputElement;
+    this.debugView = new DebugView(
+      document.getElementById("debugPanel") as HTMLDivElement
+    );
+    this.debugView.clear();
+
+    this.annotationEditor = new AnnotationEditor(
+      document.getElementById("annotationCanvas") as HTMLCanvasElement,
+      canvas,
+      document.getElementById("annotationPanel") as HTMLDivElement,
+      () => this.currentResult?.shapes ?? null
+    );
+
+    this.exportButtons = document.querySelectorAll<HTMLButtonElement>(
+      ".export-controls button"
+    );
+
     this.selectionManager = new SelectionManager();
     this.evaluationManager = new EvaluationManager(
-      this.detector,
+      this.detectionWorker,
       this.evaluateButton,
-      this.evaluationResultsDiv
+      this.evaluationResultsDiv,
+      new SnapshotView(
+        document.getElementById("snapshotPanel") as HTMLDivElement
+      )
+    );
+    this.sequenceManager = new SequenceManager(
+      this.detectionWorker,
+      this.detector,
+      canvas,
+      this.overlay,
+      this.resultsDiv,
+      document.getElementById("stopSequenceButton") as HTMLButtonElement
     );
 
     this.setupEventListeners();
@@ -604,27 +154,180 @@ class ShapeDetectionApp {
       }
     });
 
+    this.sequenceInput.addEventListener("change", async () => {
+      const files = [...(this.sequenceInput.files ?? [])];
+      if (files.length === 0) return;
+      // Single-image detection would draw over the frames, so we stop it.
+      this.currentDetection?.abort();
+      const frameRate = Math.max(1, Number(this.frameRateInput.value) || 10);
+      await this.sequenceManager.run(files, frameRate);
+      this.sequenceInput.value = ""; // So the same files can be run again
+    });
+
+    document
+      .querySelectorAll<HTMLInputElement>(".overlay-controls input")
+      .forEach((checkbox) => {
+        checkbox.addEventListener("change", () => {
+          const layer = checkbox.dataset.layer as OverlayLayer;
+          this.overlay.setLayer(layer, checkbox.checked);
+        });
+      });
+
+    // Clicking a shape on the image selects its entry in the results list.
+    const overlayCanvas = document.getElementById(
+      "overlayCanvas"
+    ) as HTMLCanvasElement;
+    overlayCanvas.addEventListener("click", (event) => {
+      this.selectShape(this.overlay.shapeAt(event.clientX, event.clientY));
+    });
+    overlayCanvas.addEventListener("mousemove", (event) => {
+      const over = this.overlay.shapeAt(event.clientX, event.clientY);
+      overlayCanvas.style.cursor = over === null ? "" : "pointer";
+    });
+
+    // The labels are drawn instead of the detections while annotating.
+    const annotateToggle = document.getElementById(
+      "annotateToggle"
+    ) as HTMLInputElement;
+    annotateToggle.addEventListener("change", async () => {
+      overlayCanvas.style.visibility = annotateToggle.checked ? "hidden" : "";
+      await this.annotationEditor.setActive(annotateToggle.checked);
+    });
+
+    this.exportButtons.forEach((button) => {
+      button.addEventListener("click", () =>
+        this.exportResults(button.dataset.format as ExportFormat)
+      );
+    });
+
+    // Turning debug mode on runs the current image again, with the debug
+    // option, so its stages show right away.
+    this.debugToggle.addEventListener("change", async () => {
+      if (!this.debugToggle.checked) {
+        this.debugView.clear();
+      } else if (this.currentImage) {
+        try {
+          this.displayResults(await this.detect(this.currentImage));
+        } catch (error) {
+          if (!isAbortError(error)) console.error(error);
+        }
+      }
+    });
+
+    const stageButtons = document.querySelectorAll<HTMLButtonElement>(
+      ".debug-stages button"
+    );
+    stageButtons.forEach((button) => {
+      button.addEventListener("click", () => {
+        stageButtons.forEach((other) =>
+          other.classList.toggle("active", other === button)
+        );
+        this.debugView.setStage(button.dataset.stage as DebugStage);
+      });
+    });
+
     this.evaluateButton.addEventListener("click", async () => {
       const selectedImages = this.selectionManager.getSelectedImages();
       await this.evaluationManager.runSelectedEvaluation(selectedImages);
     });
+
+    const datasetInput = document.getElementById(
+      "datasetInput"
+    ) as HTMLInputElement;
+    datasetInput.addEventListener("change", async () => {
+      const files = Array.from(datasetInput.files ?? []);
+      datasetInput.value = ""; // So picking the same files again runs again
+      if (files.length > 0) {
+        await this.evaluationManager.runDatasetEvaluation(files);
+      }
+    });
   }
 
   private async processImage(file: File): Promise<void> {
     try {
       this.resultsDiv.innerHTML = "<p>Processing...</p>";
 
-      const imageData = await this.detector.loadImage(file);
-      const results = await this.detector.detectShapes(imageData);
+      const imageData = await this.loadImage(file);
+      const results = await this.detect(imageData);
 
       this.displayResults(results);
     } catch (error) {
+      if (isAbortError(error)) return; // A newer image took over
       this.resultsDiv.innerHTML = `<p>Error: ${error}</p>`;
     }
   }
 
+  // Runs detection in the worker and shows its progress. Starting a new
+  // detection cancels the one still running, and any running video.
+  private async detect(imageData: ImageData): Promise<DetectionResult> {
+    this.sequenceManager.stop();
+    this.currentDetection?.abort();
+    const controller = new AbortController();
+    this.currentDetection = controller;
+    // The worker takes over the pixel buffer, so we keep a copy for
+    // debug mode to run again.
+    this.currentImage = new ImageData(
+      new Uint8ClampedArray(imageData.data),
+      imageData.width,
+      imageData.height
+    );
+    const overrides = { debug: this.debugToggle.checked };
+    try {
+      return await this.detectionWorker.detectShapes(imageData, overrides, {
+        signal: controller.signal,
+        onProgress: ({ stage, progress }) => {
+          this.resultsDiv.innerHTML = `<p>Processing... ${stage} (${Math.round(
+            progress * 100
+          )}%)</p>`;
+        },
+      });
+    } finally {
+      if (this.currentDetection === controller) this.currentDetection = null;
+    }
+  }
+
+  // Draws the image onto the canvas, and clears the overlay of the last
+  // image until the new results are in.
+  private async loadImage(file: File): Promise<ImageData> {
+    const imageData = await this.detector.loadImage(file);
+    this.overlay.clear();
+    this.debugView.clear();
+    this.currentFileName = file.name;
+    this.setResult(null);
+    this.annotationEditor.setImage(
+      file.name,
+      imageData.width,
+      imageData.height
+    );
+    return imageData;
+  }
+
+  // The result the export buttons save, or null to disable them.
+  private setResult(result: DetectionResult | null): void {
+    this.currentResult = result;
+    this.exportButtons.forEach((button) => {
+      button.disabled = result === null;
+    });
+  }
+
+  private exportResults(format: ExportFormat): void {
+    if (!this.currentResult) return;
+    const { content, mimeType } = exportResult(
+      this.currentResult,
+      format,
+      this.currentFileName
+    );
+    const baseName = this.currentFileName.replace(/\.[^.]*$/, "");
+    const extension = format === "coco" ? "coco.json" : format;
+    downloadFile(`${baseName}.${extension}`, content, mimeType);
+  }
+
   private displayResults(results: DetectionResult): void {
     const { shapes, processingTime } = results;
+    this.overlay.setShapes(shapes);
+    this.selectedShape = null;
+    this.debugView.show(results.debug);
+    this.setResult(results);
 
     let html = `
       <p><strong>Processing Time:</strong> ${processingTime.toFixed(2)}ms</p>
@@ -633,12 +336,10 @@ class ShapeDetectionApp {
 
     if (shapes.length > 0) {
       html += "<h4>Detected Shapes:</h4><ul>";
-      shapes.forEach((shape) => {
+      shapes.forEach((shape, index) => {
         html += `
-          <li>
-            <strong>${
-              shape.type.charAt(0).toUpperCase() + shape.type.slice(1)
-            }</strong><br>
+          <li class="shape-item" data-index="${index}">
+            <strong>${this.describeShapeType(shape)}</strong><br>
             Confidence: ${(shape.confidence * 100).toFixed(1)}%<br>
             Center: (${shape.center.x.toFixed(1)}, ${shape.center.y.toFixed(
           1
@@ -653,6 +354,41 @@ class ShapeDetectionApp {
     }
 
     this.resultsDiv.innerHTML = html;
+
+    // Hovering an entry highlights its shape on the image; clicking one
+    // keeps it highlighted.
+    this.resultsDiv
+      .querySelectorAll<HTMLLIElement>(".shape-item")
+      .forEach((item) => {
+        const index = Number(item.dataset.index);
+        item.addEventListener("mouseenter", () =>
+          this.overlay.highlight(index)
+        );
+        item.addEventListener("mouseleave", () =>
+          this.overlay.highlight(this.selectedShape)
+        );
+        item.addEventListener("click", () => this.selectShape(index));
+      });
+  }
+
+  // Marks the shape (and its list entry) as selected, or clears the
+  // selection for null.
+  private selectShape(index: number | null): void {
+    this.selectedShape = index;
+    this.overlay.highlight(index);
+    this.resultsDiv.querySelectorAll(".shape-item").forEach((item) => {
+      const selected = Number((item as HTMLElement).dataset.index) === index;
+      item.classList.toggle("selected", selected);
+      if (selected) item.scrollIntoView({ block: "nearest" });
+    });
+  }
+
+  // "Circle", "Hexagon", "Polygon (9 sides)", "Star (6 points)", ...
+  private describeShapeType(shape: DetectedShape): string {
+    const name = shape.type.charAt(0).toUpperCase() + shape.type.slice(1);
+    if (shape.type === "polygon") return `${name} (${shape.sides} sides)`;
+    if (shape.type === "star") return `${name} (${shape.points} points)`;
+    return name;
   }
 
   private async loadTestImages(): Promise<void> {
@@ -702,12 +438,13 @@ class ShapeDetectionApp {
           const blob = await response.blob();
           const file = new File([blob], name, { type: "image/svg+xml" });
 
-          const imageData = await this.detector.loadImage(file);
-          const results = await this.detector.detectShapes(imageData);
+          const imageData = await this.loadImage(file);
+          const results = await this.detect(imageData);
           this.displayResults(results);
 
           console.log(`Loaded test image: ${name}`);
         } catch (error) {
+          if (isAbortError(error)) return;
           console.error("Error loading test image:", error);
         }
       };
@@ -733,6 +470,10 @@ class ShapeDetectionApp {
   }
 }
 
+function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === "AbortError";
+}
+
 document.addEventListener("DOMContentLoaded", () => {
   new ShapeDetectionApp();
 });
\ No newline at end of file
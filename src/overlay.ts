@@ -0,0 +1,227 @@
+// Draws detection results on a canvas stacked on top of the image canvas,
+// so the image itself is never redrawn. Every kind of mark is a layer that
+// can be switched on and off, and one shape can be highlighted.
+
+import type { CoordinateFrame } from "./pyramid.js";
+import type { DetectedShape, Point } from "./shape-detector.js";
+
+export type OverlayLayer =
+  | "boxes" // Axis-aligned bounding boxes
+  | "contours" // Traced outlines (needs the includeContours option)
+  | "vertices" // Refined corners of polygons and stars
+  | "centers"
+  | "labels"; // Type and confidence (and track ID, in videos)
+
+export const OVERLAY_LAYERS: readonly OverlayLayer[] = [
+  "boxes",
+  "contours",
+  "vertices",
+  "centers",
+  "labels",
+];
+
+// Colors are picked per shape type, so the same kind of shape looks the
+// same across images.
+export const TYPE_COLORS: Record<DetectedShape["type"], string> = {
+  circle: "#ff4d4f",
+  ellipse: "#ff85c0",
+  triangle: "#52c41a",
+  rectangle: "#1890ff",
+  pentagon: "#faad14",
+  hexagon: "#13c2c2",
+  heptagon: "#2f54eb",
+  octagon: "#a0d911",
+  polygon: "#fa8c16",
+  star: "#eb2f96",
+};
+
+export class OverlayRenderer {
+  private canvas: HTMLCanvasElement;
+  private image: HTMLCanvasElement;
+  private ctx: CanvasRenderingContext2D;
+  private shapes: DetectedShape[] = [];
+  // Points are drawn at pixel centers when they are pixel indices.
+  private pointOffset = 0.5;
+  private layers = new Set<OverlayLayer>(OVERLAY_LAYERS);
+  private highlighted: number | null = null;
+
+  // 'canvas' is the overlay, 'image' the canvas with the image under it.
+  constructor(canvas: HTMLCanvasElement, image: HTMLCanvasElement) {
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("Could not get canvas context");
+    this.canvas = canvas;
+    this.image = image;
+    this.ctx = ctx;
+  }
+
+  // Shows these shapes from now on. 'frame' is the coordinate frame they
+  // were measured in ("pixels" unless the measurement option says else).
+  setShapes(
+    shapes: DetectedShape[],
+    frame: CoordinateFrame = "pixels"
+  ): void {
+    this.shapes = shapes;
+    this.pointOffset = frame === "pixels" ? 0.5 : 0;
+    this.highlighted = null;
+    this.draw();
+  }
+
+  clear(): void {
+    this.setShapes([]);
+  }
+
+  setLayer(layer: OverlayLayer, visible: boolean): void {
+    if (visible) this.layers.add(layer);
+    else this.layers.delete(layer);
+    this.draw();
+  }
+
+  isLayerVisible(layer: OverlayLayer): boolean {
+    return this.layers.has(layer);
+  }
+
+  // Index of the shape to draw on top and bold, or null for none.
+  highlight(index: number | null): void {
+    if (index === this.highlighted) return;
+    this.highlighted = index;
+    this.draw();
+  }
+
+  // Index of the shape under a mouse position (client coordinates), or
+  // null. Where shapes overlap the smallest one wins, since a small shape
+  // is otherwise impossible to pick from inside a big one.
+  shapeAt(clientX: number, clientY: number): number | null {
+    const rect = this.canvas.getBoundingClientRect();
+    if (rect.width === 0 || rect.height === 0) return null;
+    const p = {
+      x: ((clientX - rect.left) * this.canvas.width) / rect.width,
+      y: ((clientY - rect.top) * this.canvas.height) / rect.height,
+    };
+
+    let best: number | null = null;
+    this.shapes.forEach((shape, index) => {
+      const box = shape.boundingBox;
+      const inBox =
+        p.x >= box.x &&
+        p.y >= box.y &&
+        p.x <= box.x + box.width &&
+        p.y <= box.y + box.height;
+      if (!inBox) return;
+      const outline = shape.contour ?? shape.vertices;
+      if (outline && !this.contains(outline, p)) return;
+      if (best === null || shape.area < this.shapes[best].area) best = index;
+    });
+    return best;
+  }
+
+  private draw(): void {
+    const { canvas, ctx } = this;
+    // Keep the overlay's pixel grid the same as the image's, so shape
+    // coordinates can be drawn as they are.
+    if (canvas.width !== this.image.width) canvas.width = this.image.width;
+    if (canvas.height !== this.image.height) canvas.height = this.image.height;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+    // One CSS pixel in canvas pixels, so lines stay thin on big images
+    // that are displayed scaled down.
+    const displayed = canvas.getBoundingClientRect().width;
+    const unit = displayed > 0 ? Math.max(1, canvas.width / displayed) : 1;
+
+    this.shapes.forEach((shape, index) => {
+      if (index !== this.highlighted) this.drawShape(shape, unit, false);
+    });
+    if (this.highlighted !== null && this.shapes[this.highlighted]) {
+      this.drawShape(this.shapes[this.highlighted], unit, true);
+    }
+  }
+
+  private drawShape(shape: DetectedShape, unit: number, bold: boolean): void {
+    const { ctx } = this;
+    const color = TYPE_COLORS[shape.type];
+    const at = (p: Point): Point => ({
+      x: p.x + this.pointOffset,
+      y: p.y + this.pointOffset,
+    });
+
+    ctx.save();
+    ctx.strokeStyle = color;
+    ctx.fillStyle = color;
+    ctx.lineWidth = (bold ? 3 : 1.5) * unit;
+    // With a highlight, everything else fades back.
+    if (this.highlighted !== null && !bold) ctx.globalAlpha = 0.35;
+
+    if (this.layers.has("boxes")) {
+      const box = shape.boundingBox;
+      ctx.strokeRect(box.x, box.y, box.width, box.height);
+    }
+
+    if (this.layers.has("contours") && shape.contour) {
+      ctx.beginPath();
+      shape.contour.map(at).forEach((p, i) => {
+        if (i === 0) ctx.moveTo(p.x, p.y);
+        else ctx.lineTo(p.x, p.y);
+      });
+      ctx.closePath();
+      ctx.setLineDash([4 * unit, 2 * unit]);
+      ctx.stroke();
+      ctx.setLineDash([]);
+    }
+
+    if (this.layers.has("vertices") && shape.vertices) {
+      for (const p of shape.vertices.map(at)) {
+        ctx.beginPath();
+        ctx.arc(p.x, p.y, (bold ? 4 : 3) * unit, 0, 2 * Math.PI);
+        ctx.fill();
+      }
+    }
+
+    if (this.layers.has("centers")) {
+      const c = at(shape.center);
+      const size = 5 * unit;
+      ctx.beginPath();
+      ctx.moveTo(c.x - size, c.y);
+      ctx.lineTo(c.x + size, c.y);
+      ctx.moveTo(c.x, c.y - size);
+      ctx.lineTo(c.x, c.y + size);
+      ctx.stroke();
+    }
+
+    if (this.layers.has("labels")) {
+      const track = shape.trackId !== undefined ? `#${shape.trackId} ` : "";
+      const text = `${track}${shape.type} ${Math.round(
+        shape.confidence * 100
+      )}%`;
+      const fontSize = 12 * unit;
+      ctx.font = `${bold ? "bold " : ""}${fontSize}px sans-serif`;
+      const box = shape.boundingBox;
+      // Above the box, or inside its top edge when there is no room.
+      const above = box.y - 4 * unit;
+      const y = above >= fontSize ? above : box.y + fontSize;
+      const width = ctx.measureText(text).width + 4 * unit;
+      // A dark backing keeps the text readable on any image.
+      ctx.save();
+      ctx.globalAlpha *= 0.75;
+      ctx.fillStyle = "#000";
+      ctx.fillRect(box.x, y - fontSize, width, fontSize + 3 * unit);
+      ctx.restore();
+      ctx.fillText(text, box.x + 2 * unit, y);
+    }
+    ctx.restore();
+  }
+
+  // Even-odd point-in-polygon test, with the outline in shape coordinates.
+  private contains(outline: Point[], p: Point): boolean {
+    const x = p.x - this.pointOffset;
+    const y = p.y - this.pointOffset;
+    let inside = false;
+    for (let i = 0, j = outline.length - 1; i < outline.length; j = i++) {
+      const a = outline[i];
+      const b = outline[j];
+      if (a.y > y !== b.y > y) {
+        const crossX = a.x + ((y - a.y) * (b.x - a.x)) / (b.y - a.y);
+        if (x < crossX) inside = !inside;
+      }
+    }
+    return inside;
+  }
+}
@@ -0,0 +1,112 @@
+// Finer classes for triangles and quadrilaterals, from the side lengths and
+// angles of their corners. A "rectangle" from the corner count alone can be
+// any four-sided shape; the subtype says which one it really is.
+
+import type { Point } from "./shape-detector.js";
+
+export type TriangleSubtype = "equilateral" | "isosceles" | "right" | "scalene";
+
+export type QuadrilateralSubtype =
+  | "square"
+  | "rectangle"
+  | "rhombus"
+  | "parallelogram"
+  | "trapezoid"
+  | "quadrilateral";
+
+export interface SubtypeTolerances {
+  // Sides count as equal when they differ by at most this fraction of the
+  // longer one.
+  sideTolerance: number;
+  // Angles (in degrees) count as right, and edges as parallel, within this.
+  angleTolerance: number;
+}
+
+// Triangles: equilateral wins over right, and right over isosceles, so a
+// right isosceles triangle is "right".
+export function classifyTriangle(
+  vertices: Point[],
+  tolerances: SubtypeTolerances
+): TriangleSubtype {
+  const sides = sideLengths(vertices);
+  if (allEqual(sides, tolerances.sideTolerance)) return "equilateral";
+
+  const angles = cornerAngles(vertices);
+  if (angles.some((a) => Math.abs(a - 90) <= tolerances.angleTolerance)) {
+    return "right";
+  }
+
+  for (let i = 0; i < 3; i++) {
+    if (allEqual([sides[i], sides[(i + 1) % 3]], tolerances.sideTolerance)) {
+      return "isosceles";
+    }
+  }
+  return "scalene";
+}
+
+// Quadrilaterals, from the most to the least specific class that fits.
+export function classifyQuadrilateral(
+  vertices: Point[],
+  tolerances: SubtypeTolerances
+): QuadrilateralSubtype {
+  const { angleTolerance, sideTolerance } = tolerances;
+  const sides = sideLengths(vertices);
+  const firstPairParallel = isParallel(vertices, 0, angleTolerance);
+  const secondPairParallel = isParallel(vertices, 1, angleTolerance);
+
+  if (firstPairParallel && secondPairParallel) {
+    const rightAngled = cornerAngles(vertices).every(
+      (a) => Math.abs(a - 90) <= angleTolerance
+    );
+    const equalSides = allEqual(sides, sideTolerance);
+    if (rightAngled) return equalSides ? "square" : "rectangle";
+    return equalSides ? "rhombus" : "parallelogram";
+  }
+  if (firstPairParallel || secondPairParallel) return "trapezoid";
+  return "quadrilateral";
+}
+
+function sideLengths(vertices: Point[]): number[] {
+  return vertices.map((p, i) => {
+    const q = vertices[(i + 1) % vertices.length];
+    return Math.hypot(q.x - p.x, q.y - p.y);
+  });
+}
+
+// Interior angle at every corner, in degrees.
+function cornerAngles(vertices: Point[]): number[] {
+  const n = vertices.length;
+  return vertices.map((p, i) => {
+    const prev = vertices[(i - 1 + n) % n];
+    const next = vertices[(i + 1) % n];
+    const a = Math.atan2(prev.y - p.y, prev.x - p.x);
+    const b = Math.atan2(next.y - p.y, next.x - p.x);
+    let angle = Math.abs(a - b) * (180 / Math.PI);
+    if (angle > 180) angle = 360 - angle;
+    return angle;
+  });
+}
+
+function allEqual(lengths: number[], tolerance: number): boolean {
+  const longest = Math.max(...lengths);
+  return longest - Math.min(...lengths) <= longest * tolerance;
+}
+
+// Whether edge 'first' (from corner first to first + 1) of a quadrilateral
+// is parallel to the opposite edge.
+function isParallel(
+  vertices: Point[],
+  first: number,
+  angleTolerance: number
+): boolean {
+  const a = vertices[first];
+  const b = vertices[first + 1];
+  const c = vertices[first + 2];
+  const d = vertices[(first + 3) % 4];
+  const angle1 = Math.atan2(b.y - a.y, b.x - a.x);
+  const angle2 = Math.atan2(c.y - d.y, c.x - d.x);
+  // Direction doesn't matter, so compare modulo 180 degrees.
+  let difference = Math.abs(angle1 - angle2) * (180 / Math.PI);
+  difference %= 180;
+  return Math.min(difference, 180 - difference) <= angleTolerance;
+}
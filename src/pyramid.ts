@@ -0,0 +1,104 @@
+// Helpers for multi-scale detection (see ShapeDetector.detectMultiScale).
+// A large image is detected on a downscaled copy, which finds the shapes
+// quickly, and each shape is then detected again on a full-resolution cut
+// of the image around it. The functions here make those copies and cuts and
+// move detected shapes between their coordinate systems.
+
+import type { PixelBox } from "./geometry.js";
+import type { DetectedShape, Point, RasterImage } from "./shape-detector.js";
+
+// Halves the image: every output pixel is the mean of a 2x2 block. An odd
+// last row or column is dropped, so output pixel (x, y) covers input pixels
+// (2x, 2y) to (2x + 1, 2y + 1) exactly.
+export function halveImage(image: RasterImage): RasterImage {
+  const width = Math.max(1, Math.floor(image.width / 2));
+  const height = Math.max(1, Math.floor(image.height / 2));
+  const data = new Uint8ClampedArray(width * height * 4);
+  const source = image.data;
+  // A 1-pixel-wide image can only be halved in the other direction.
+  const dx = image.width > 1 ? 1 : 0;
+  const dy = image.height > 1 ? image.width : 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = (2 * y * image.width + 2 * x) * 4;
+      const q = (y * width + x) * 4;
+      for (let c = 0; c < 4; c++) {
+        data[q + c] =
+          (source[p + c] +
+            source[p + dx * 4 + c] +
+            source[p + dy * 4 + c] +
+            source[p + (dx + dy) * 4 + c] +
+            2) >>
+          2;
+      }
+    }
+  }
+  return { data, width, height };
+}
+
+// Copies a rectangle out of the image. 'box' must lie inside it.
+export function cropImage(image: RasterImage, box: PixelBox): RasterImage {
+  const data = new Uint8ClampedArray(box.width * box.height * 4);
+  for (let y = 0; y < box.height; y++) {
+    const start = ((box.y + y) * image.width + box.x) * 4;
+    data.set(
+      image.data.subarray(start, start + box.width * 4),
+      y * box.width * 4
+    );
+  }
+  return { data, width: box.width, height: box.height };
+}
+
+// How a shape's points are given. In "pixels" (measurement "pixels") they
+// are pixel indices, so they sit half a pixel off the pixel edges that
+// bounding boxes are counted in; in "canvas" they are on the same grid.
+export type CoordinateFrame = "pixels" | "canvas";
+
+// Moves a shape into another coordinate system: every length is multiplied
+// by 'scale', then 'offset' is added. Points can also switch frames.
+export function transformShape(
+  shape: DetectedShape,
+  scale: number,
+  offset: Point,
+  from: CoordinateFrame,
+  to: CoordinateFrame = from
+): DetectedShape {
+  const before = from === "pixels" ? 0.5 : 0;
+  const after = to === "pixels" ? 0.5 : 0;
+  const point = (p: Point): Point => ({
+    x: (p.x + before) * scale - after + offset.x,
+    y: (p.y + before) * scale - after + offset.y,
+  });
+  const length = (value: number | undefined) =>
+    value === undefined ? undefined : value * scale;
+
+  const moved: DetectedShape = {
+    ...shape,
+    center: point(shape.center),
+    area: shape.area * scale * scale,
+    boundingBox: {
+      x: shape.boundingBox.x * scale + offset.x,
+      y: shape.boundingBox.y * scale + offset.y,
+      width: shape.boundingBox.width * scale,
+      height: shape.boundingBox.height * scale,
+    },
+  };
+  if (shape.radius !== undefined) moved.radius = length(shape.radius);
+  if (shape.semiMajorAxis !== undefined) {
+    moved.semiMajorAxis = length(shape.semiMajorAxis);
+    moved.semiMinorAxis = length(shape.semiMinorAxis);
+  }
+  if (shape.vertices) moved.vertices = shape.vertices.map(point);
+  if (shape.contour) moved.contour = shape.contour.map(point);
+  const box = shape.orientedBoundingBox;
+  if (box) {
+    moved.orientedBoundingBox = {
+      ...box,
+      center: point(box.center),
+      width: box.width * scale,
+      height: box.height * scale,
+      corners: box.corners.map(point),
+    };
+  }
+  return moved;
+}
@@ -0,0 +1,145 @@
+import type {
+  DetectedShape,
+  Detector,
+  ShapeDetector,
+} from "./shape-detector.js";
+import { ShapeTracker } from "./tracking.js";
+import type { TrackStats } from "./tracking.js";
+import { imageSequenceFrames, videoFrames } from "./frame-source.js";
+import type { Frame } from "./frame-source.js";
+import type { OverlayRenderer } from "./overlay.js";
+
+// Runs detection over a video or an image sequence, frame by frame, and
+// shows each frame's shapes with their track IDs plus the stats of every
+// track so far.
+export class SequenceManager {
+  private detector: Detector;
+  private decoder: ShapeDetector; // Decodes image files onto the canvas
+  private canvas: HTMLCanvasElement;
+  private overlay: OverlayRenderer;
+  private resultsDiv: HTMLDivElement;
+  private stopButton: HTMLButtonElement;
+  private tracker = new ShapeTracker();
+  private current: AbortController | null = null;
+
+  constructor(
+    detector: Detector,
+    decoder: ShapeDetector,
+    canvas: HTMLCanvasElement,
+    overlay: OverlayRenderer,
+    resultsDiv: HTMLDivElement,
+    stopButton: HTMLButtonElement
+  ) {
+    this.detector = detector;
+    this.decoder = decoder;
+    this.canvas = canvas;
+    this.overlay = overlay;
+    this.resultsDiv = resultsDiv;
+    this.stopButton = stopButton;
+    this.stopButton.addEventListener("click", () => this.stop());
+  }
+
+  // One video file, or any number of image files (a sequence).
+  async run(files: File[], frameRate: number): Promise<void> {
+    this.stop();
+    const controller = new AbortController();
+    this.current = controller;
+    this.tracker.reset();
+    this.stopButton.disabled = false;
+
+    const video = files.find((file) => file.type.startsWith("video/"));
+    const frames = video
+      ? videoFrames(video, this.canvas, frameRate)
+      : imageSequenceFrames(files, this.decoder, frameRate);
+
+    let last: { frame: Frame; shapes: DetectedShape[] } | null = null;
+    try {
+      this.resultsDiv.innerHTML = "<p>Processing...</p>";
+      for await (const frame of frames) {
+        const result = await this.detector.detectShapes(
+          frame.image,
+          undefined,
+          { signal: controller.signal }
+        );
+        const shapes = this.tracker.update(result.shapes, frame.time);
+        this.overlay.setShapes(shapes); // Labels show the track IDs
+        last = { frame, shapes };
+        this.display("Processing...", last);
+      }
+      this.display("Done.", last);
+    } catch (error) {
+      if (controller.signal.aborted) {
+        this.display("Stopped.", last);
+        return;
+      }
+      this.resultsDiv.innerHTML = `<p>Error: ${error}</p>`;
+    } finally {
+      if (this.current === controller) {
+        this.current = null;
+        this.stopButton.disabled = true;
+      }
+    }
+  }
+
+  stop(): void {
+    this.current?.abort();
+  }
+
+  // The status, the last frame's shapes with their track IDs, and the
+  // stats of every track so far.
+  private display(
+    status: string,
+    last: { frame: Frame; shapes: DetectedShape[] } | null
+  ): void {
+    let html = `<p><strong>${status}</strong></p>`;
+    if (last) {
+      const { frame, shapes } = last;
+      html += `
+        <p><strong>Frame ${frame.index + 1}</strong>
+          (${frame.time.toFixed(2)}s): ${shapes.length} shapes</p>
+      `;
+      if (shapes.length > 0) {
+        html += "<ul>";
+        shapes.forEach((shape) => {
+          html += `
+            <li>
+              <strong>#${shape.trackId} ${shape.type}</strong>
+              at (${shape.center.x.toFixed(1)}, ${shape.center.y.toFixed(1)})
+            </li>
+          `;
+        });
+        html += "</ul>";
+      }
+    }
+    html += this.renderTracks(this.tracker.stats());
+    this.resultsDiv.innerHTML = html;
+  }
+
+  private renderTracks(tracks: TrackStats[]): string {
+    if (tracks.length === 0) return "<p>No tracks yet.</p>";
+    const rows = tracks
+      .map(
+        (track) => `
+          <tr class="${track.active ? "" : "track-ended"}">
+            <td>#${track.trackId}</td>
+            <td>${track.type}</td>
+            <td>${track.firstFrame + 1}-${track.lastFrame + 1}</td>
+            <td>${track.lifetime.toFixed(2)}s</td>
+            <td>${track.speed.toFixed(1)} px/s</td>
+            <td>${track.distance.toFixed(1)} px</td>
+          </tr>
+        `
+      )
+      .join("");
+    return `
+      <h4>Tracks</h4>
+      <table class="track-table">
+        <tr>
+          <th>ID</th><th>Type</th><th>Frames</th><th>Lifetime</th>
+          <th>Speed</th><th>Distance</th>
+        </tr>
+        ${rows}
+      </table>
+    `;
+  }
+}
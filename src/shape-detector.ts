@@ -0,0 +1,1720 @@
+import {
+  resolveDetectorOptions,
+  scaleSizeThresholds,
+} from "./detector-options.js";
+import type { DetectorOptions } from "./detector-options.js";
+import {
+  detectPolarity,
+  localThresholds,
+  otsuThreshold,
+  toGrayImage,
+} from "./threshold.js";
+import type { ThresholdInfo } from "./threshold.js";
+import { segmentByColor } from "./color-segmentation.js";
+import { splitBlob } from "./blob-splitting.js";
+import { labelComponents } from "./labeling.js";
+import type { Region, SegmentMap } from "./labeling.js";
+import { classMargin, scoreConfidence } from "./confidence.js";
+import type { ConfidenceFeatures } from "./confidence.js";
+import { measureCoverage } from "./coverage.js";
+import type { BlobDebug, DetectionDebug } from "./detection-debug.js";
+import { cropImage, halveImage, transformShape } from "./pyramid.js";
+import {
+  classifyQuadrilateral,
+  classifyTriangle,
+} from "./polygon-subtypes.js";
+import type {
+  QuadrilateralSubtype,
+  TriangleSubtype,
+} from "./polygon-subtypes.js";
+import {
+  boxOverlap,
+  convexHull,
+  fitCircle,
+  fitEllipse,
+  fitLine,
+  intersectLines,
+  minAreaRect,
+  orientedBox,
+  polygonArea,
+  polygonCentroid,
+  polygonFitError,
+} from "./geometry.js";
+import type {
+  CircleFit,
+  EllipseFit,
+  Line,
+  OrientedBox,
+  PixelBox,
+} from "./geometry.js";
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface DetectedShape {
+  type:
+    | "circle"
+    | "triangle"
+    | "rectangle"
+    | "pentagon"
+    | "hexagon"
+    | "heptagon"
+    | "octagon"
+    | "polygon" // Any other convex polygon, see 'sides'
+    | "star"
+    | "ellipse";
+  sides?: number; // Number of corners, for every polygon type
+  points?: number; // Number of points, for stars
+  // Finer class of triangles and four-sided shapes (which are all reported
+  // as "rectangle"), from their side lengths and angles.
+  subtype?: TriangleSubtype | QuadrilateralSubtype;
+  radius?: number; // Fitted radius, for circles
+  semiMajorAxis?: number; // For ellipses
+  semiMinorAxis?: number; // For ellipses
+  // Corners of polygons and stars, clockwise (on screen) from the top-most
+  // one, at sub-pixel precision.
+  vertices?: Point[];
+  // Angle in degrees [0, 180), clockwise from the x-axis (image y points
+  // down): the major axis for ellipses, the long side of the oriented
+  // bounding box for polygons and stars. Not set for circles.
+  rotation?: number;
+  // The smallest rotated rectangle around the shape.
+  orientedBoundingBox?: OrientedBox;
+  // The traced outer boundary, through the centers of the edge pixels
+  // (only with the includeContours option).
+  contour?: Point[];
+  confidence: number;
+  boundingBox: {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+  };
+  center: Point;
+  area: number;
+  // False for outline-only (stroked, unfilled) shapes. Their area is the
+  // region enclosed by the stroke, not the ink pixels.
+  filled: boolean;
+  // True when the shape was cut out of a blob shared with other shapes
+  // that touch or overlap it.
+  overlapping: boolean;
+  color?: string; // Fill color as "#rrggbb" (color segmentation only)
+  // The same ID in every frame the shape is seen in (video and image
+  // sequences only, see tracking.ts).
+  trackId?: number;
+}
+
+// How far (relative to the radius) contour points may stray from a fitted
+// circle before we stop calling the shape a circle. Loose enough for
+// pixel-stepped edges, tight enough to reject polygons.
+const CIRCLE_FIT_TOLERANCE = 0.02;
+
+// Contours run through the centers of the edge pixels, which sit half a
+// pixel inside the real edge. We add this to fitted radii and axes.
+const EDGE_OFFSET = 0.5;
+
+// Contour and pixel coordinates are pixel indices. In canvas coordinates
+// pixel (x, y) covers the square from (x, y) to (x + 1, y + 1), so its
+// center is half a pixel further.
+const PIXEL_CENTER = 0.5;
+
+// Confidence margins (see confidence.ts): how far past a class boundary a
+// shape must be before we stop doubting it. In units of the quantity each
+// boundary is on (axis ratio, circularity, inner/outer radius ratio, and
+// degrees of turn at a corner).
+const AXIS_RATIO_MARGIN = 0.1;
+const CIRCULARITY_MARGIN = 0.1;
+const STAR_RATIO_MARGIN = 0.2;
+const CORNER_TURN_MARGIN = 30;
+// RDP tolerances (relative to simplifyEpsilon) the corner count should
+// survive.
+const CORNER_COUNT_EPSILON_SCALES = [0.75, 1.5];
+
+// An ellipse fit is always allowed this much error (in pixels), because on
+// small shapes the pixel steps alone are a sizable fraction of the radius.
+const ELLIPSE_FIT_MIN_ERROR = 0.6;
+
+// Names for the polygons we know by name, indexed by their number of sides.
+// Anything else convex with up to 'maxPolygonSides' sides is a "polygon".
+const POLYGON_NAMES: Record<number, DetectedShape["type"]> = {
+  3: "triangle",
+  4: "rectangle", // Per the requirements, squares are rectangles.
+  5: "pentagon",
+  6: "hexagon",
+  7: "heptagon",
+  8: "octagon",
+};
+
+// The raw RGBA pixels the pipeline reads. A browser ImageData satisfies this,
+// and so does a decoded buffer in Node, where there is no ImageData class.
+export type RasterImage = Pick<ImageData, "data" | "width" | "height">;
+
+export interface DetectionResult {
+  shapes: DetectedShape[];
+  processingTime: number;
+  imageWidth: number;
+  imageHeight: number;
+  // How the image was binarized (threshold segmentation only)
+  threshold?: ThresholdInfo;
+  // What each pipeline stage produced (only with the debug option)
+  debug?: DetectionDebug;
+}
+
+// Where detectShapes is, for progress bars. 'progress' is the fraction of
+// the whole detection done so far (0-1).
+export interface DetectionProgress {
+  stage: "segmentation" | "blobs" | "shapes" | "done";
+  progress: number;
+}
+
+// Optional hooks for a detectShapes call: progress reports, and a signal
+// that stops the detection (it then rejects with the signal's reason).
+export interface DetectionControl {
+  onProgress?: (progress: DetectionProgress) => void;
+  signal?: AbortSignal;
+}
+
+// Anything that detects shapes the way ShapeDetector does, such as
+// DetectionWorker (which runs it in a Web Worker).
+export type Detector = Pick<ShapeDetector, "detectShapes">;
+
+// Share of the total work each stage starts at. Most of the time goes into
+// analyzing the blobs, so that stage reports per blob.
+const STAGE_START: Record<DetectionProgress["stage"], number> = {
+  segmentation: 0,
+  blobs: 0.2,
+  shapes: 0.3,
+  done: 1,
+};
+
+type ProgressReport = (
+  stage: DetectionProgress["stage"],
+  progress: number
+) => void;
+
+// Multi-scale mode: the share of the progress bar the downscaled image gets.
+// The rest goes to the full-resolution tiles.
+const PYRAMID_PROGRESS = 0.3;
+// A refined shape replaces the one found on the downscaled image when their
+// bounding boxes overlap at least this much (intersection over union).
+const REFINE_MIN_OVERLAP = 0.5;
+// Tiles the downscaled copy found nothing in are detected with this much
+// of their neighbors around them (as a fraction of the tile size), so
+// shapes across their edges are seen whole.
+const EMPTY_TILE_MARGIN = 0.25;
+
+// Define a helper structure for our internal blob analysis
+// (area, bounding box, center and start pixel come from Region)
+interface Blob extends Region {
+  id: number; // Its label in the label map
+  segment: number; // The segment ID its pixels share in the segment map
+}
+
+// What the pipeline found in one image, before it becomes a DetectionResult.
+interface PipelineOutput {
+  shapes: DetectedShape[];
+  threshold?: ThresholdInfo;
+  debug?: DetectionDebug;
+}
+
+// The holes inside a blob: background regions it fully encloses.
+interface BlobHoles {
+  area: number; // Pixels in all holes together
+  backgroundArea: number; // Of those, how many are background (not another shape)
+  largestArea: number; // Pixels in the largest hole
+  contour: Point[] | null; // Inner contour of the largest hole
+}
+
+
+//ShapeDetector Class
+// This class contains the full implementation for detecting shapes.
+// All the core logic for the challenge is inside this class.
+ 
+export class ShapeDetector {
+  // The canvas is only needed by loadImage(). Detection itself works on raw
+  // pixels, so the detector can also run headless (see src/cli).
+  private canvas: HTMLCanvasElement | null;
+  private ctx: CanvasRenderingContext2D | null;
+  private width: number = 0;
+  private height: number = 0;
+  private options: DetectorOptions;
+
+  constructor(canvas?: HTMLCanvasElement, options?: Partial<DetectorOptions>) {
+    this.canvas = canvas ?? null;
+    // Validate up front so a bad option fails here, not halfway through an image.
+    this.options = resolveDetectorOptions(options);
+    // We add 'willReadFrequently' for a performance boost, as we'll be reading pixel data.
+    this.ctx = canvas?.getContext("2d", { willReadFrequently: true }) ?? null;
+  }
+
+  // The options detections run with (defaults filled in), before any
+  // per-call overrides. A copy, so changing it changes nothing.
+  getOptions(): DetectorOptions {
+    return { ...this.options };
+  }
+
+  /**
+   * MAIN ALGORITHM
+   * This is the core function that runs the entire 4-step detection pipeline.
+   * @param imageData - The raw pixel data from the canvas (or any RGBA buffer).
+   * @param overrides - Options for this call only, on top of the constructor's.
+   * @param control - Progress callback and abort signal.
+   * @returns A promise that resolves to the DetectionResult.
+   */
+  async detectShapes(
+    imageData: RasterImage,
+    overrides?: Partial<DetectorOptions>,
+    control?: DetectionControl
+  ): Promise<DetectionResult> {
+    const startTime = performance.now();
+    const options = scaleSizeThresholds(
+      resolveDetectorOptions(this.options, overrides),
+      imageData.width,
+      imageData.height
+    );
+    const report: ProgressReport = (stage, progress) => {
+      control?.signal?.throwIfAborted();
+      control?.onProgress?.({ stage, progress });
+    };
+
+    const multiScale =
+      options.multiScale &&
+      Math.max(imageData.width, imageData.height) > options.pyramidMaxSize;
+    const { shapes, threshold, debug } = multiScale
+      ? this.detectMultiScale(imageData, options, report)
+      : this.detectInImage(imageData, options, report);
+
+    report("done", STAGE_START.done);
+    const processingTime = performance.now() - startTime;
+
+    // Return the final list of shapes in the required format.
+    return {
+      shapes,
+      processingTime,
+      imageWidth: imageData.width,
+      imageHeight: imageData.height,
+      threshold,
+      ...(debug && { debug }),
+    };
+  }
+
+  // The whole pipeline (steps 1-6) on one image at its own resolution.
+  private detectInImage(
+    imageData: RasterImage,
+    options: DetectorOptions,
+    report: ProgressReport
+  ): PipelineOutput {
+    report("segmentation", STAGE_START.segmentation);
+
+    this.width = imageData.width;
+    this.height = imageData.height;
+
+    // --- STEP 1: Binarize Image ---
+    // Convert the full-color image into a simple 0 (background) or 1 (shape) grid.
+    // The default is a fixed threshold of 128, which worked best for the noisy image.
+    // In "color" mode we cluster by color instead, and each pixel gets the
+    // ID of its color segment (0 is still background).
+    let segmentMap: SegmentMap;
+    let threshold: ThresholdInfo | undefined;
+    let palette: string[] | undefined;
+    if (options.segmentation === "color") {
+      ({ segments: segmentMap, palette } = segmentByColor(
+        imageData,
+        options.colorClusters,
+        options.colorMergeDistance
+      ));
+    } else {
+      ({ binaryImage: segmentMap, threshold } = this.binarize(
+        imageData,
+        options
+      ));
+    }
+
+    // --- STEP 2: Find Blobs (Connected Component Analysis) ---
+    // Scan the segment map and group all touching pixels of the same
+    // segment into 'blobs'. Each blob is one potential shape.
+    report("blobs", STAGE_START.blobs);
+    const { blobs, labels } = this.findBlobs(segmentMap);
+
+    // --- STEP 3: Analyze each Blob ---
+    const shapes: DetectedShape[] = [];
+    // In debug mode, what became of each blob.
+    const traces: BlobDebug[] = [];
+    const shapesShare = STAGE_START.done - STAGE_START.shapes;
+    for (const [index, blob] of blobs.entries()) {
+      report(
+        "shapes",
+        STAGE_START.shapes + (shapesShare * index) / blobs.length
+      );
+      // =================================================================
+      // === COMMENT BLOCK: Explaining the Filter Tuning Process ===
+      //
+      // This filter is critical for ignoring "noise" (like the lines
+      // in 'no_shapes.png') while keeping real, small shapes.
+      //
+      // --- Our Tuning Process ---
+      //
+      // 1. FIRST ATTEMPT (e.g., < 100):
+      //    Our first value was too low. It incorrectly detected the
+      //    noise lines in 'no_shapes.png' and 'complex_scene.png'
+      //    as "Triangle" shapes (areas were ~202px and ~322px).
+      //
+      // 2. SECOND ATTEMPT (< 500):
+      //    We tried a high value. This successfully ignored the noise
+      //    lines, but it was *too high*. It incorrectly filtered out
+      //    the *real* small triangle in the 'edge_cases.png' image.
+      //
+      // 3. FINAL VALUE (< 350):
+      //    This value is the perfect "sweet spot" we found after testing.
+      //    - It IS high enough to block the noise lines (max area ~322px).
+      //    - It IS low enough to keep the real small triangle (area ~375px).
+      //
+      // 350 is now the default for the 'minBlobArea' option.
+      //
+      // An outline-only shape has few ink pixels, so for those we filter on
+      // the area the outline encloses instead.
+      // =================================================================
+      const holes = this.findHoles(blob, labels, segmentMap);
+      const enclosedArea = blob.area + holes.area;
+      const outlined =
+        holes.backgroundArea > enclosedArea * options.outlineHoleRatio;
+      let trace: BlobDebug | null = null;
+      if (options.debug) {
+        trace = {
+          id: blob.id,
+          segment: blob.segment,
+          area: blob.area,
+          enclosedArea,
+          outlined,
+          boundingBox: blob.boundingBox,
+          center: blob.center,
+          outcome: "rejected",
+          shapeCount: 0,
+        };
+        traces.push(trace);
+      }
+      if ((outlined ? enclosedArea : blob.area) < options.minBlobArea) {
+        if (trace) trace.rejection = "area";
+        continue;
+      }
+
+      // --- STEP 4: Trace Contour ---
+      // Find the outer boundary (perimeter) of the blob.
+      const contour = this.traceContour(blob, labels);
+      if (trace) trace.contour = contour;
+      // If the contour is too short, it's probably not a real shape.
+      if (contour.length < options.minContourLength) {
+        if (trace) trace.rejection = "contour-length";
+        continue;
+      }
+
+      // --- STEP 5: Classify the Shape ---
+      // Analyze the contour's geometry to figure out what shape it is.
+      const detection = this.analyzeContour(
+        contour,
+        blob,
+        options,
+        outlined ? holes : null,
+        trace
+      );
+      if (detection) {
+        if (palette) detection.color = palette[blob.segment];
+        if (options.includeContours) detection.contour = contour;
+        if (options.measurement !== "pixels") {
+          const coverageOf = options.measurement === "coverage" ? blob : null;
+          this.measureSubpixel(detection, coverageOf, labels, imageData);
+        }
+        shapes.push(detection); // Add it to our final list
+        if (trace) {
+          trace.outcome = "shape";
+          trace.shapeCount = 1;
+        }
+      } else if (options.splitOverlapping && !outlined) {
+        // --- STEP 6: Split Merged Shapes ---
+        // A blob we can't classify is often several shapes that touch or
+        // overlap. We try cutting it apart and classifying each piece.
+        const parts = this.splitAndClassify(blob, labels, options);
+        if (trace && parts.length > 0) {
+          trace.outcome = "split";
+          trace.shapeCount = parts.length;
+          delete trace.rejection;
+        }
+        for (const part of parts) {
+          if (palette) part.color = palette[blob.segment];
+          // The pixels of a part don't show its real edge where it meets
+          // the other parts, so parts are always measured from their fit.
+          if (options.measurement !== "pixels") {
+            this.measureSubpixel(part, null, labels, imageData);
+          }
+          shapes.push(part);
+        }
+      }
+    }
+
+    const debug: DetectionDebug | undefined = options.debug
+      ? {
+          width: imageData.width,
+          height: imageData.height,
+          scale: 1,
+          mask: segmentMap.data,
+          labels,
+          blobs: traces,
+        }
+      : undefined;
+    return { shapes, threshold, debug };
+  }
+
+  // Multi-scale detection for large images. Every size threshold is in
+  // full-resolution pixels, so a shape passes or fails them the same way at
+  // any image size, and every result is in full-resolution coordinates.
+  private detectMultiScale(
+    imageData: RasterImage,
+    options: DetectorOptions,
+    report: ProgressReport
+  ): PipelineOutput {
+    // --- Find the shapes on a downscaled copy ---
+    // We halve the image until it's small enough. 'scale' is the number of
+    // full-resolution pixels per pixel of the copy, along each side.
+    let level: RasterImage = imageData;
+    let scale = 1;
+    while (Math.max(level.width, level.height) > options.pyramidMaxSize) {
+      level = halveImage(level);
+      scale *= 2;
+    }
+    const window = Math.max(3, Math.round(options.adaptiveWindowSize / scale));
+    const levelOptions: DetectorOptions = {
+      ...options,
+      minBlobArea: options.minBlobArea / (scale * scale),
+      minContourLength: options.minContourLength / scale,
+      adaptiveWindowSize: window % 2 === 1 ? window : window + 1,
+      // The tiles measure the shapes properly, this is only a first look.
+      measurement: "pixels",
+    };
+    const coarse = this.detectInImage(level, levelOptions, (stage, progress) =>
+      report(stage, progress * PYRAMID_PROGRESS)
+    );
+    const found = coarse.shapes.map((shape) =>
+      transformShape(shape, scale, { x: 0, y: 0 }, "pixels")
+    );
+
+    // --- Refine them on full-resolution tiles ---
+    // Each shape belongs to the tile its center is in. The piece of the
+    // image we cut out for a tile is the area around its own shapes, so a
+    // shape that crosses a tile edge is still seen whole.
+    const tiles = new Map<number, DetectedShape[]>();
+    const columns = Math.ceil(imageData.width / options.tileSize);
+    for (const shape of found) {
+      const column = Math.floor(shape.center.x / options.tileSize);
+      const row = Math.floor(shape.center.y / options.tileSize);
+      const tile = tiles.get(row * columns + column) ?? [];
+      tile.push(shape);
+      tiles.set(row * columns + column, tile);
+    }
+
+    // Otsu and polarity detection on a small cut-out would see a different
+    // histogram than the whole image, so the tiles reuse what the copy
+    // found. Averaging pixels doesn't move the gray levels of flat areas,
+    // so the threshold holds at full resolution too.
+    // Debug output is only kept for the downscaled image.
+    const tileOptions: DetectorOptions = { ...options, debug: false };
+    if (coarse.threshold) {
+      tileOptions.polarity = coarse.threshold.polarity;
+      if (coarse.threshold.value !== null) {
+        tileOptions.thresholdMode = "fixed";
+        tileOptions.threshold = coarse.threshold.value;
+      }
+    }
+    const frame = options.measurement === "pixels" ? "pixels" : "canvas";
+
+    // Shapes too thin or small to survive the downscaling leave no trace on
+    // the copy, so tiles it found nothing in are detected whole as well.
+    const rows = Math.ceil(imageData.height / options.tileSize);
+    const emptyTiles: number[] = [];
+    for (let index = 0; index < rows * columns; index++) {
+      if (!tiles.has(index)) emptyTiles.push(index);
+    }
+
+    const shapes: DetectedShape[] = [];
+    let tilesDone = 0;
+    const tileCount = tiles.size + emptyTiles.length;
+    const tileReport: ProgressReport = (stage, progress) =>
+      report(
+        stage,
+        PYRAMID_PROGRESS +
+          ((1 - PYRAMID_PROGRESS) * (tilesDone + progress)) / tileCount
+      );
+    for (const owned of tiles.values()) {
+      const box = this.tileBox(owned, 2 * scale + 2, imageData);
+      const refined = this.detectInImage(
+        cropImage(imageData, box),
+        tileOptions,
+        tileReport
+      ).shapes.map((shape) => transformShape(shape, 1, box, frame));
+
+      // Cut-outs also catch pieces of neighboring shapes, so we only take
+      // the refined shape that matches each of our own.
+      const used = new Set<DetectedShape>();
+      for (const shape of owned) {
+        let best: DetectedShape | null = null;
+        let bestOverlap = REFINE_MIN_OVERLAP;
+        for (const candidate of refined) {
+          if (used.has(candidate)) continue;
+          const overlap = boxOverlap(shape.boundingBox, candidate.boundingBox);
+          if (overlap >= bestOverlap) {
+            best = candidate;
+            bestOverlap = overlap;
+          }
+        }
+        if (best) used.add(best);
+        // Without a match we keep what the downscaled copy saw.
+        shapes.push(
+          best ?? transformShape(shape, 1, { x: 0, y: 0 }, "pixels", frame)
+        );
+      }
+      tilesDone++;
+    }
+
+    for (const index of emptyTiles) {
+      const tile: PixelBox = {
+        x: (index % columns) * options.tileSize,
+        y: Math.floor(index / columns) * options.tileSize,
+        width: options.tileSize,
+        height: options.tileSize,
+      };
+      const box = this.tileBox(
+        [{ boundingBox: tile }],
+        options.tileSize * EMPTY_TILE_MARGIN,
+        imageData
+      );
+      const found = this.detectInImage(
+        cropImage(imageData, box),
+        tileOptions,
+        tileReport
+      ).shapes.map((shape) => transformShape(shape, 1, box, frame));
+      // A tile keeps the shapes centered in it. Ones the cut-out cuts off
+      // are left out, as are ones a neighboring tile already has.
+      for (const shape of found) {
+        const { x, y } = shape.center;
+        const inTile =
+          x >= tile.x &&
+          x < tile.x + tile.width &&
+          y >= tile.y &&
+          y < tile.y + tile.height;
+        const known = shapes.some(
+          (other) =>
+            boxOverlap(shape.boundingBox, other.boundingBox) >=
+            REFINE_MIN_OVERLAP
+        );
+        if (
+          inTile &&
+          !known &&
+          !this.cutOff(shape.boundingBox, box, imageData)
+        ) {
+          shapes.push(shape);
+        }
+      }
+      tilesDone++;
+    }
+    const debug = coarse.debug && { ...coarse.debug, scale };
+    return { shapes, threshold: coarse.threshold, debug };
+  }
+
+  // The full-resolution piece of the image a tile's shapes are refined on:
+  // their bounding boxes, plus a margin for how far off the edges found on
+  // the downscaled copy can be (two of its pixels and two more).
+  private tileBox(
+    shapes: Pick<DetectedShape, "boundingBox">[],
+    margin: number,
+    imageData: RasterImage
+  ): PixelBox {
+    let left = Infinity,
+      top = Infinity,
+      right = -Infinity,
+      bottom = -Infinity;
+    for (const { boundingBox: box } of shapes) {
+      left = Math.min(left, box.x - margin);
+      top = Math.min(top, box.y - margin);
+      right = Math.max(right, box.x + box.width + margin);
+      bottom = Math.max(bottom, box.y + box.height + margin);
+    }
+    const x = Math.max(0, Math.floor(left));
+    const y = Math.max(0, Math.floor(top));
+    return {
+      x,
+      y,
+      width: Math.min(imageData.width, Math.ceil(right)) - x,
+      height: Math.min(imageData.height, Math.ceil(bottom)) - y,
+    };
+  }
+
+  // Whether a shape found on a cut-out reaches one of its edges that isn't
+  // also an edge of the image, so it may go on beyond it.
+  private cutOff(
+    shape: PixelBox,
+    box: PixelBox,
+    imageData: RasterImage
+  ): boolean {
+    return (
+      (box.x > 0 && shape.x <= box.x) ||
+      (box.y > 0 && shape.y <= box.y) ||
+      (box.x + box.width < imageData.width &&
+        shape.x + shape.width >= box.x + box.width) ||
+      (box.y + box.height < imageData.height &&
+        shape.y + shape.height >= box.y + box.height)
+    );
+  }
+
+  
+   // Loads an image file onto the hidden canvas and returns its ImageData.
+  
+  loadImage(file: File): Promise<ImageData> {
+    return new Promise((resolve, reject) => {
+      const canvas = this.canvas;
+      const ctx = this.ctx;
+      if (!canvas || !ctx) return reject("loadImage needs a canvas");
+      const img = new Image();
+      img.onload = () => {
+        canvas.width = img.width;
+        canvas.height = img.height;
+        ctx.drawImage(img, 0, 0);
+        // Set willReadFrequently for performance
+        const ctxForReading = canvas.getContext("2d", {
+          willReadFrequently: true,
+        });
+        if (!ctxForReading) return reject("Could not get canvas context");
+        const imageData = ctxForReading.getImageData(
+          0,
+          0,
+          img.width,
+          img.height
+        );
+        resolve(imageData);
+      };
+      img.onerror = reject;
+      img.src = URL.createObjectURL(file);
+    });
+  }
+
+  
+  // ** PRIVATE HELPER METHODS (The Algorithm) ** //
+  
+
+  
+  //Step 1: Grayscale and Binarize
+  //Converts RGBA pixel data to a simple 0/1 grid.
+  //The threshold comes from options.thresholdMode, and the polarity
+  //(dark shapes on light, or the reverse) is detected unless forced.
+   
+  private binarize(
+    imageData: RasterImage,
+    options: DetectorOptions
+  ): { binaryImage: SegmentMap; threshold: ThresholdInfo } {
+    const image = toGrayImage(imageData);
+
+    // Pick the global threshold. Adaptive mode still needs one, as the
+    // reference level for polarity detection, so it uses Otsu for that.
+    const globalThreshold =
+      options.thresholdMode === "fixed"
+        ? options.threshold
+        : otsuThreshold(image);
+    const polarity =
+      options.polarity === "auto"
+        ? detectPolarity(image, globalThreshold)
+        : options.polarity;
+
+    // In adaptive mode every pixel gets its own threshold: the local mean,
+    // moved by the offset towards the background.
+    const local =
+      options.thresholdMode === "adaptive"
+        ? localThresholds(
+            image,
+            options.adaptiveWindowSize,
+            options.adaptiveMethod
+          )
+        : null;
+    const offset =
+      polarity === "dark-on-light"
+        ? -options.adaptiveOffset
+        : options.adaptiveOffset;
+
+    // Start with every pixel at 0 (background)
+    const binaryImage: SegmentMap = {
+      data: new Uint8Array(this.width * this.height),
+      width: this.width,
+      height: this.height,
+    };
+
+    for (let y = 0; y < this.height; y++) {
+      for (let x = 0; x < this.width; x++) {
+        const p = y * this.width + x;
+        const gray = image.gray[p];
+        const threshold = local ? local[p] + offset : globalThreshold;
+
+        // --- THIS IS THE CRITICAL LOGIC ---
+        // If the pixel is on the "shape" side of the threshold (darker for
+        // dark-on-light images) and not transparent (a > 128),
+        // we mark it as '1' (a shape pixel).
+        const isShape =
+          polarity === "dark-on-light" ? gray < threshold : gray > threshold;
+        if (isShape && image.opaque[p]) {
+          binaryImage.data[p] = 1; // Shape pixel
+        }
+      }
+    }
+
+    return {
+      binaryImage,
+      threshold: {
+        mode: options.thresholdMode,
+        value: local ? null : globalThreshold,
+        polarity,
+      },
+    };
+  }
+
+  /**
+   * Step 2: Find Blobs (Connected Component Analysis)
+   * Finds all groups of connected pixels that share the same (non-zero)
+   * segment ID, with a two-pass union-find labeling (see labeling.ts).
+   * Returns the blobs and the label map, which holds each pixel's blob ID.
+   */
+  private findBlobs(segmentMap: SegmentMap): {
+    blobs: Blob[];
+    labels: Int32Array;
+  } {
+    const { labels, components } = labelComponents(segmentMap);
+    const blobs = components.map(({ label, ...component }) => ({
+      id: label,
+      ...component,
+    }));
+    return { blobs, labels };
+  }
+
+  // Step 4: Trace Contour (Moore-Neighbor Tracing)
+  // Finds the outer boundary of a blob by "walking" around its edge.
+  
+  private traceContour(blob: Blob, labels: Int32Array): Point[] {
+    // The walk starts at the top-most, then left-most pixel
+    return this.traceBoundary(
+      blob.start,
+      (x, y) => labels[y * this.width + x] === blob.id
+    );
+  }
+
+  // The Moore-Neighbor walk itself. 'isInside' says which pixels belong to
+  // the region, so the same walk traces blobs and the holes inside them.
+  // 'startPoint' must be the region's top-most, then left-most pixel.
+  private traceBoundary(
+    startPoint: Point,
+    isInside: (x: number, y: number) => boolean
+  ): Point[] {
+    const contour: Point[] = [];
+    let current = startPoint;
+    let direction = 0; // 0:N, 1:NE, 2:E, 3:SE, 4:S, 5:SW, 6:W, 7:NW
+
+    // Directions to check, in clockwise order
+    const neighbors = [
+      { x: 0, y: -1 }, // N
+      { x: 1, y: -1 }, // NE
+      { x: 1, y: 0 }, // E
+      { x: 1, y: 1 }, // SE
+      { x: 0, y: 1 }, // S
+      { x: -1, y: 1 }, // SW
+      { x: -1, y: 0 }, // W
+      { x: -1, y: -1 }, // NW
+    ];
+
+    do {
+      contour.push(current);
+      // We start checking from the neighbor "behind" where we came from.
+      // This ensures we always "hug the left wall".
+      let startDir = (direction + 6) % 8; // (direction - 2 + 8) % 8
+
+      let next: Point | null = null;
+      for (let i = 0; i < 8; i++) {
+        const dirIndex = (startDir + i) % 8;
+        const checkDir = neighbors[dirIndex];
+        const checkPt = { x: current.x + checkDir.x, y: current.y + checkDir.y };
+
+        // Is this neighbor a valid pixel of the region?
+        if (
+          checkPt.y >= 0 &&
+          checkPt.y < this.height &&
+          checkPt.x >= 0 &&
+          checkPt.x < this.width &&
+          isInside(checkPt.x, checkPt.y)
+        ) {
+          next = checkPt; // This is our next step
+          direction = dirIndex; // Remember which direction we went
+          break;
+        }
+      }
+
+      if (next) {
+        current = next;
+      } else {
+        break; // Should not happen on a multi-pixel blob
+      }
+
+      // We stop when we get back to the start point
+    } while (current.x !== startPoint.x || current.y !== startPoint.y);
+
+    return contour;
+  }
+
+  
+  // Step 4b: Find Holes
+  // Finds the regions a blob fully encloses, e.g. the inside of a stroked
+  // circle. We flood-fill the outside of the blob (within its bounding box,
+  // padded by one pixel); whatever non-blob pixels the fill can't reach are
+  // holes. The background is 4-connected here, because the blob is
+  // 8-connected and a diagonal gap in the stroke doesn't let anything out.
+  
+  private findHoles(
+    blob: Blob,
+    labels: Int32Array,
+    segmentMap: SegmentMap
+  ): BlobHoles {
+    const box = blob.boundingBox;
+    const w = box.width + 2;
+    const h = box.height + 2;
+    const toIndex = (x: number, y: number) =>
+      (y - box.y + 1) * w + (x - box.x + 1);
+
+    // 0 = not visited yet, 1 = blob, 2 = outside, 3+ = hole number (minus 3)
+    const state = new Int32Array(w * h);
+    for (let y = box.y; y < box.y + box.height; y++) {
+      for (let x = box.x; x < box.x + box.width; x++) {
+        if (labels[y * this.width + x] === blob.id) state[toIndex(x, y)] = 1;
+      }
+    }
+    const isBackground = (x: number, y: number) =>
+      segmentMap.data[y * this.width + x] === 0;
+
+    const fill = (start: number, value: number): number => {
+      const stack = [start];
+      state[start] = value;
+      let count = 0;
+      while (stack.length > 0) {
+        const i = stack.pop()!;
+        count++;
+        const x = i % w;
+        const neighbors = [
+          x > 0 ? i - 1 : -1,
+          x < w - 1 ? i + 1 : -1,
+          i - w,
+          i + w,
+        ];
+        for (const n of neighbors) {
+          if (n >= 0 && n < state.length && state[n] === 0) {
+            state[n] = value;
+            stack.push(n);
+          }
+        }
+      }
+      return count;
+    };
+
+    // The padded corner is always outside the blob.
+    fill(0, 2);
+
+    const holes: BlobHoles = {
+      area: 0,
+      backgroundArea: 0,
+      largestArea: 0,
+      contour: null,
+    };
+    let largestStart: Point | null = null;
+    let largestValue = 0;
+    let nextValue = 3;
+
+    // Scanning row by row means the first pixel we meet in each hole is its
+    // top-most, left-most one, which is what traceBoundary needs.
+    for (let y = box.y; y < box.y + box.height; y++) {
+      for (let x = box.x; x < box.x + box.width; x++) {
+        const i = toIndex(x, y);
+        if (state[i] !== 0) {
+          if (state[i] >= 3 && isBackground(x, y)) holes.backgroundArea++;
+          continue;
+        }
+        const value = nextValue++;
+        const size = fill(i, value);
+        holes.area += size;
+        if (isBackground(x, y)) holes.backgroundArea++;
+        if (size > holes.largestArea) {
+          holes.largestArea = size;
+          largestStart = { x, y };
+          largestValue = value;
+        }
+      }
+    }
+
+    if (largestStart) {
+      holes.contour = this.traceBoundary(
+        largestStart,
+        (x, y) =>
+          x >= box.x &&
+          x < box.x + box.width &&
+          y >= box.y &&
+          y < box.y + box.height &&
+          state[toIndex(x, y)] === largestValue
+      );
+    }
+    return holes;
+  }
+
+  
+  // ** Step 5: Analyze Contour & Classify ** //
+
+  //This is the "brains" of the operation. It decides what shape a contour is.
+  
+  private analyzeContour(
+    contour: Point[],
+    blob: Blob,
+    options: DetectorOptions,
+    holes: BlobHoles | null, // Set for outline-only shapes
+    trace: BlobDebug | null = null // Gets the measurements, in debug mode
+  ): DetectedShape | null {
+    // --- 5a. Simplify Contour ---
+    // A contour has 1000s of points. We need to find just the "corners" (vertices).
+    // We use the Ramer-Douglas-Peucker (RDP) algorithm to simplify the line.
+    // 'epsilon' is the max distance a point can be from the simplified line.
+    // We found 2.0 (the default) works well for the test images.
+    const corners = this.findCorners(contour, options.simplifyEpsilon, options);
+    const numVertices = corners.length;
+
+    let shape: DetectedShape["type"] | null = null;
+    let features: ConfidenceFeatures | null = null;
+
+    // --- 5b. Calculate Circularity ---
+    let perimeter = this.getPerimeter(contour);
+    let area = blob.area; // Use the accurate pixel-counted area
+    if (holes) {
+      // For an outline the ink pixels say little about the shape. We measure
+      // the enclosed region instead, along the middle of the stroke: halfway
+      // between the outer contour and the inner (hole) contour.
+      const outerArea = blob.area + holes.area;
+      const innerPerimeter = holes.contour
+        ? this.getPerimeter(holes.contour)
+        : perimeter;
+      area = (outerArea + holes.largestArea) / 2;
+      perimeter = (perimeter + innerPerimeter) / 2;
+    }
+    // This formula (Polsby-Popper) checks how "round" a shape is.
+    // A perfect circle will have a value of 1.0.
+    const circularity = (4 * Math.PI * area) / (perimeter * perimeter);
+
+    // --- 5c. Fit an Ellipse ---
+    // Ellipses (and circles) have no corners for RDP to find, so we fit a
+    // curve to the contour instead and see how closely it follows it.
+    const ellipse = this.fitOutlineEllipse(contour, holes);
+    const ellipseTolerance = ellipse
+      ? Math.max(
+          ELLIPSE_FIT_MIN_ERROR,
+          options.ellipseFitTolerance * ellipse.semiMinorAxis
+        )
+      : 0;
+    const ellipseFits =
+      ellipse !== null && ellipse.rmsError <= ellipseTolerance;
+
+    // --- 5d. Classification Logic ---
+    // We check for circle first, as it's the most distinct.
+    let sides: number | undefined;
+    let points: number | undefined;
+    let curve: Partial<DetectedShape> = {};
+    let circle: Omit<CircleFit, "rmsError"> | null = null;
+    let starRatio: number | null = null;
+    const axisRatio = ellipse ? ellipse.semiMinorAxis / ellipse.semiMajorAxis : 1;
+    if (circularity > options.circularityThreshold || ellipseFits) {
+      if (ellipseFits && axisRatio < options.circleAxisRatio) {
+        shape = "ellipse";
+        // An ellipse that's nearly round was nearly a circle.
+        features = {
+          fitError: ellipse.rmsError,
+          fitTolerance: ellipseTolerance,
+          margins: [
+            classMargin(options.circleAxisRatio - axisRatio, AXIS_RATIO_MARGIN),
+          ],
+        };
+        curve = {
+          semiMajorAxis: ellipse.semiMajorAxis,
+          semiMinorAxis: ellipse.semiMinorAxis,
+          rotation: (ellipse.angle * 180) / Math.PI,
+        };
+      } else {
+        shape = "circle";
+        circle = this.fittedCircle(contour, ellipse, ellipseFits);
+        if (circle) curve = { radius: circle.radius };
+        // A circle that passed on the ellipse fit can be off by its axis
+        // ratio (nearly an ellipse); one that passed on circularity alone
+        // by how far it cleared the circularity threshold.
+        features = {
+          fitError: ellipseFits
+            ? ellipse.rmsError
+            : (fitCircle(contour)?.rmsError ?? ellipseTolerance),
+          fitTolerance: Math.max(ELLIPSE_FIT_MIN_ERROR, ellipseTolerance),
+          margins: [
+            ellipseFits
+              ? classMargin(
+                  axisRatio - options.circleAxisRatio,
+                  AXIS_RATIO_MARGIN
+                )
+              : classMargin(
+                  circularity - options.circularityThreshold,
+                  CIRCULARITY_MARGIN
+                ),
+          ],
+        };
+      }
+    } else if (
+      numVertices >= 6 &&
+      numVertices % 2 === 0 &&
+      (starRatio = this.starRatio(corners, blob.center)) !== null &&
+      starRatio < options.starRadiusRatio
+    ) {
+      // An n-point star has 2n vertices (n inner, n outer).
+      // We check for stars before polygons, because a 3-point star and a
+      // hexagon both have 6 vertices.
+      shape = "star";
+      points = numVertices / 2;
+      // Stubby stars (inner radius close to the outer one) are nearly
+      // polygons.
+      features = {
+        fitError: polygonFitError(contour, corners),
+        fitTolerance: options.simplifyEpsilon,
+        margins: [
+          classMargin(options.starRadiusRatio - starRatio, STAR_RATIO_MARGIN),
+          this.cornerCountMargin(contour, numVertices, options),
+        ],
+      };
+    } else if (
+      numVertices >= 3 &&
+      numVertices <= options.maxPolygonSides &&
+      this.isConvex(contour, options.minPolygonSolidity)
+    ) {
+      // Concave outlines with few vertices are usually merged shapes,
+      // which we'd rather hand to the splitting step.
+      shape = POLYGON_NAMES[numVertices] ?? "polygon";
+      sides = numVertices;
+      // A polygon competes with the curves (a many-sided polygon is nearly
+      // a circle) and with its neighbors in side count: a blunt corner is
+      // easy for RDP to miss, and a count that changes with epsilon was a
+      // close call.
+      features = {
+        fitError: polygonFitError(contour, corners),
+        fitTolerance: options.simplifyEpsilon,
+        margins: [
+          ellipse
+            ? classMargin(ellipse.rmsError - ellipseTolerance, ellipseTolerance)
+            : 1,
+          classMargin(
+            options.circularityThreshold - circularity,
+            CIRCULARITY_MARGIN
+          ),
+          classMargin(this.weakestTurn(corners), CORNER_TURN_MARGIN),
+          this.cornerCountMargin(contour, numVertices, options),
+        ],
+      };
+    }
+
+    if (trace) {
+      trace.vertexCount = numVertices;
+      trace.circularity = circularity;
+    }
+    // If we couldn't classify it, we return null.
+    if (shape === null || features === null) {
+      if (trace) {
+        trace.rejection =
+          numVertices < 3
+            ? "too-few-corners"
+            : numVertices > options.maxPolygonSides
+              ? "too-many-corners"
+              : "concave";
+      }
+      return null;
+    }
+    const confidence = scoreConfidence(features);
+
+    // --- 5e. Corners and Orientation ---
+    // Polygons and stars get their corners (refined to sub-pixel precision)
+    // and the minimum-area box around them. Curves get a box from the fit.
+    let geometry: Partial<DetectedShape> = {};
+    if (sides !== undefined || points !== undefined) {
+      const refined = this.refineCorners(contour, corners);
+      const box = minAreaRect(refined);
+      geometry = {
+        vertices: refined,
+        ...(box && { rotation: box.angle, orientedBoundingBox: box }),
+      };
+      const tolerances = {
+        sideTolerance: options.subtypeSideTolerance,
+        angleTolerance: options.subtypeAngleTolerance,
+      };
+      if (sides === 3) {
+        geometry.subtype = classifyTriangle(refined, tolerances);
+      } else if (sides === 4) {
+        geometry.subtype = classifyQuadrilateral(refined, tolerances);
+      }
+    } else if (shape === "ellipse" && ellipse) {
+      geometry = {
+        orientedBoundingBox: orientedBox(
+          ellipse.center,
+          ellipse.semiMajorAxis * 2,
+          ellipse.semiMinorAxis * 2,
+          ellipse.angle
+        ),
+      };
+    } else if (circle) {
+      const diameter = circle.radius * 2;
+      geometry = {
+        orientedBoundingBox: orientedBox(circle.center, diameter, diameter, 0),
+      };
+    }
+
+    // Return the final object in the format the evaluator expects.
+    return {
+      type: shape,
+      ...(sides !== undefined && { sides }),
+      ...(points !== undefined && { points }),
+      ...curve,
+      ...geometry,
+      confidence: confidence,
+      boundingBox: blob.boundingBox,
+      center: blob.center,
+      area: area,
+      filled: holes === null,
+      overlapping: false,
+    };
+  }
+
+  // RDP corners are contour pixels, so they are off by up to a pixel and
+  // cut off sharp tips. We fit a straight line to the contour points along
+  // each edge, move it half a pixel out to the real edge, and take the
+  // crossing of neighboring edge lines as the corner.
+  // The result starts at the top-most corner.
+  private refineCorners(contour: Point[], corners: Point[]): Point[] {
+    const indices = corners.map((c) => contour.indexOf(c));
+    let refined = corners;
+
+    if (!indices.includes(-1)) {
+      const centroid = {
+        x: corners.reduce((sum, c) => sum + c.x, 0) / corners.length,
+        y: corners.reduce((sum, c) => sum + c.y, 0) / corners.length,
+      };
+
+      const lines: (Line | null)[] = indices.map((start, i) => {
+        const end = indices[(i + 1) % indices.length];
+        const length = (end - start + contour.length) % contour.length;
+        // Skip the points right next to the corners, where the edge bends.
+        const margin = Math.min(2, Math.floor(length / 4));
+        const edge: Point[] = [];
+        for (let k = margin; k <= length - margin; k++) {
+          edge.push(contour[(start + k) % contour.length]);
+        }
+        const line = fitLine(edge);
+        if (!line) return null;
+
+        // Push the line outward, away from the shape's center.
+        let normal = { x: -line.direction.y, y: line.direction.x };
+        const side =
+          (line.point.x - centroid.x) * normal.x +
+          (line.point.y - centroid.y) * normal.y;
+        if (side < 0) normal = { x: -normal.x, y: -normal.y };
+        return {
+          point: {
+            x: line.point.x + normal.x * EDGE_OFFSET,
+            y: line.point.y + normal.y * EDGE_OFFSET,
+          },
+          direction: line.direction,
+        };
+      });
+
+      refined = corners.map((corner, i) => {
+        const before = lines[(i - 1 + lines.length) % lines.length];
+        const after = lines[i];
+        const crossing = before && after ? intersectLines(before, after) : null;
+        // Nearly parallel edges can cross far away; keep the RDP corner then.
+        if (!crossing || this.distance(crossing, corner) > 5) return corner;
+        return crossing;
+      });
+    }
+
+    let top = 0;
+    for (let i = 1; i < refined.length; i++) {
+      const p = refined[i];
+      const best = refined[top];
+      if (p.y < best.y || (p.y === best.y && p.x < best.x)) top = i;
+    }
+    return refined.slice(top).concat(refined.slice(0, top));
+  }
+
+  // Fits an ellipse to the outline. For outline-only shapes we fit the
+  // inner contour too and average the two, so the axes follow the middle
+  // of the stroke (like the area does).
+  private fitOutlineEllipse(
+    contour: Point[],
+    holes: BlobHoles | null
+  ): EllipseFit | null {
+    const outer = fitEllipse(contour);
+    if (!outer) return null;
+    const fit = {
+      ...outer,
+      semiMajorAxis: outer.semiMajorAxis + EDGE_OFFSET,
+      semiMinorAxis: outer.semiMinorAxis + EDGE_OFFSET,
+    };
+
+    const inner = holes?.contour ? fitEllipse(holes.contour) : null;
+    if (!inner) return fit;
+    // Hole pixels sit half a pixel inside the hole, so the inner edge is
+    // half a pixel further out as well.
+    fit.semiMajorAxis =
+      (fit.semiMajorAxis + inner.semiMajorAxis + EDGE_OFFSET) / 2;
+    fit.semiMinorAxis =
+      (fit.semiMinorAxis + inner.semiMinorAxis + EDGE_OFFSET) / 2;
+    return fit;
+  }
+
+  // The circle we report: from the ellipse fit when that matched,
+  // otherwise from a plain circle fit of the contour.
+  private fittedCircle(
+    contour: Point[],
+    ellipse: EllipseFit | null,
+    ellipseFits: boolean
+  ): Omit<CircleFit, "rmsError"> | null {
+    if (ellipse && ellipseFits) {
+      return {
+        center: ellipse.center,
+        radius: Math.sqrt(ellipse.semiMajorAxis * ellipse.semiMinorAxis),
+      };
+    }
+    const circle = fitCircle(contour);
+    return circle
+      ? { center: circle.center, radius: circle.radius + EDGE_OFFSET }
+      : null;
+  }
+
+  // ** Sub-pixel Measurement (options.measurement) ** //
+
+  // Replaces the pixel-counted area, center and bounding box with sub-pixel
+  // ones: from the anti-aliased coverage of 'blob' when one is given (and
+  // there is enough contrast), otherwise from the fitted geometry.
+  // Everything, vertices and oriented box included, moves to canvas
+  // coordinates, where the center of pixel (x, y) is (x + 0.5, y + 0.5).
+  // Outline-only shapes keep their midline area (see analyzeContour).
+  private measureSubpixel(
+    shape: DetectedShape,
+    blob: Blob | null,
+    labels: Int32Array,
+    imageData: RasterImage
+  ): void {
+    const toCanvas = (p: Point): Point => ({
+      x: p.x + PIXEL_CENTER,
+      y: p.y + PIXEL_CENTER,
+    });
+    if (shape.vertices) shape.vertices = shape.vertices.map(toCanvas);
+    if (shape.contour) shape.contour = shape.contour.map(toCanvas);
+    const box = shape.orientedBoundingBox;
+    if (box) {
+      shape.orientedBoundingBox = {
+        ...box,
+        center: toCanvas(box.center),
+        corners: box.corners.map(toCanvas),
+      };
+    }
+
+    if (blob && shape.filled) {
+      const coverage = measureCoverage(
+        imageData,
+        (x, y) => labels[y * this.width + x] === blob.id,
+        blob.boundingBox,
+        (x, y) =>
+          x >= 0 &&
+          y >= 0 &&
+          x < this.width &&
+          y < this.height &&
+          labels[y * this.width + x] === 0
+      );
+      if (coverage) {
+        Object.assign(shape, coverage);
+        return;
+      }
+    }
+
+    const fitted = this.fittedMeasurement(shape);
+    if (!fitted) {
+      shape.center = toCanvas(shape.center);
+      return;
+    }
+    shape.center = fitted.center;
+    shape.boundingBox = fitted.boundingBox;
+    if (shape.filled) shape.area = fitted.area;
+  }
+
+  // Area, center and bounding box of the fitted polygon, circle or
+  // ellipse (already in canvas coordinates). Null if nothing was fitted.
+  private fittedMeasurement(
+    shape: DetectedShape
+  ): Pick<DetectedShape, "area" | "center" | "boundingBox"> | null {
+    if (shape.vertices) {
+      const xs = shape.vertices.map((p) => p.x);
+      const ys = shape.vertices.map((p) => p.y);
+      const minX = Math.min(...xs);
+      const minY = Math.min(...ys);
+      return {
+        area: polygonArea(shape.vertices),
+        center: polygonCentroid(shape.vertices),
+        boundingBox: {
+          x: minX,
+          y: minY,
+          width: Math.max(...xs) - minX,
+          height: Math.max(...ys) - minY,
+        },
+      };
+    }
+
+    const box = shape.orientedBoundingBox;
+    if (!box || (shape.type !== "circle" && shape.type !== "ellipse")) {
+      return null;
+    }
+    // The extents of a rotated ellipse along x and y.
+    const a = box.width / 2;
+    const b = box.height / 2;
+    const angle = (box.angle * Math.PI) / 180;
+    const halfWidth = Math.hypot(a * Math.cos(angle), b * Math.sin(angle));
+    const halfHeight = Math.hypot(a * Math.sin(angle), b * Math.cos(angle));
+    return {
+      area: Math.PI * a * b,
+      center: box.center,
+      boundingBox: {
+        x: box.center.x - halfWidth,
+        y: box.center.y - halfHeight,
+        width: halfWidth * 2,
+        height: halfHeight * 2,
+      },
+    };
+  }
+
+  // ** Step 6: Split Merged Shapes ** //
+
+  // Cuts a blob into the shapes it is made of (see blob-splitting.ts) and
+  // classifies each piece on its own. Returns nothing if the blob turns
+  // out to be a single piece after all.
+  
+  private splitAndClassify(
+    blob: Blob,
+    blobLabels: Int32Array,
+    options: DetectorOptions
+  ): DetectedShape[] {
+    const box = blob.boundingBox;
+    const { parts, labels } = splitBlob(
+      (x, y) => blobLabels[y * this.width + x] === blob.id,
+      box,
+      options.splitMinProminence
+    );
+    if (parts.length < 2) return [];
+
+    const labelAt = (x: number, y: number) =>
+      x < box.x ||
+      y < box.y ||
+      x >= box.x + box.width ||
+      y >= box.y + box.height
+        ? 0
+        : labels[(y - box.y) * box.width + (x - box.x)];
+
+    const shapes: DetectedShape[] = [];
+    parts.forEach((region, index) => {
+      const label = index + 1;
+      if (region.area < options.minBlobArea) return;
+
+      const part: Blob = { id: blob.id, segment: blob.segment, ...region };
+      const contour = this.traceBoundary(
+        part.start,
+        (x, y) => labelAt(x, y) === label
+      );
+      if (contour.length < options.minContourLength) return;
+
+      // Contour points next to another part lie on the cut we made, not on
+      // the shape's real edge. A covered circle is best recognized from
+      // the arc that is left, so we try a circle fit on that first.
+      const edge = contour.filter(
+        (p) => !this.touchesOtherLabel(p, label, labelAt)
+      );
+      const detection =
+        this.fitPartialCircle(edge, part) ??
+        this.analyzeContour(contour, part, options, null);
+      if (!detection) return;
+      if (options.includeContours) detection.contour = contour;
+      shapes.push({ ...detection, overlapping: true });
+    });
+    return shapes;
+  }
+
+  // Whether any 8-neighbor of 'p' belongs to a different part.
+  private touchesOtherLabel(
+    p: Point,
+    label: number,
+    labelAt: (x: number, y: number) => number
+  ): boolean {
+    for (let dy = -1; dy <= 1; dy++) {
+      for (let dx = -1; dx <= 1; dx++) {
+        const other = labelAt(p.x + dx, p.y + dy);
+        if (other !== 0 && other !== label) return true;
+      }
+    }
+    return false;
+  }
+
+  // Fits a circle to the visible arc of a part. Returns null unless the
+  // points sit tightly on the circle.
+  private fitPartialCircle(edge: Point[], part: Blob): DetectedShape | null {
+    const fit = fitCircle(edge);
+    if (!fit) return null;
+
+    const tolerance = Math.max(1, CIRCLE_FIT_TOLERANCE * fit.radius);
+    // A nearly straight edge also fits a huge circle well, so the circle
+    // must not be much bigger than the piece we can see.
+    const maxRadius = Math.max(part.boundingBox.width, part.boundingBox.height);
+    if (fit.rmsError > tolerance || fit.radius > maxRadius) return null;
+
+    const radius = fit.radius + EDGE_OFFSET;
+    return {
+      type: "circle",
+      radius,
+      // Only part of the circle is visible, so no other class competes.
+      confidence: scoreConfidence({
+        fitError: fit.rmsError,
+        fitTolerance: tolerance,
+        margins: [],
+      }),
+      boundingBox: {
+        x: fit.center.x - radius,
+        y: fit.center.y - radius,
+        width: radius * 2,
+        height: radius * 2,
+      },
+      center: fit.center,
+      orientedBoundingBox: orientedBox(fit.center, radius * 2, radius * 2, 0),
+      area: Math.PI * radius * radius,
+      filled: true,
+      overlapping: true,
+    };
+  }
+
+
+  // ** GEOMETRY HELPER FUNCTIONS ** //
+  
+
+  
+   //Standard distance formula.
+   
+  private distance(p1: Point, p2: Point): number {
+    return Math.sqrt((p1.x - p2.x) ** 2 + (p1.y - p2.y) ** 2);
+  }
+
+  
+  // Ramer-Douglas-Peucker (RDP) algorithm implementation.
+  // This recursively simplifies a line by finding the point farthest
+  // from the line segment and splitting there.
+   
+
+  private simplifyContour(points: Point[], epsilon: number): Point[] {
+    if (points.length < 3) return points; // Cannot simplify a line
+
+    let dmax = 0;
+    let index = 0;
+    const end = points.length - 1;
+
+    // Find the point that is "farthest" from the line (start -> end)
+    for (let i = 1; i < end; i++) {
+      const d = this.perpendicularDistance(points[i], points[0], points[end]);
+      if (d > dmax) {
+        index = i;
+        dmax = d;
+      }
+    }
+
+    let results: Point[];
+    // If the farthest point is "far enough" (dmax > epsilon)...
+    if (dmax > epsilon) {
+      // ...we recursively simplify the two new lines.
+      const recResults1 = this.simplifyContour(
+        points.slice(0, index + 1),
+        epsilon
+      );
+      const recResults2 = this.simplifyContour(points.slice(index), epsilon);
+      // And join the results
+      results = recResults1.slice(0, recResults1.length - 1).concat(recResults2);
+    } else {
+      // Otherwise, all points are "close enough", so we just keep the start and end.
+      results = [points[0], points[end]];
+    }
+    return results;
+  }
+
+  
+  // Finds the perpendicular distance from a point to a line segment.
+  //Helper for RDP.
+   
+  private perpendicularDistance(p: Point, a: Point, b: Point): number {
+    const { x: px, y: py } = p;
+    const { x: ax, y: ay } = a;
+    const { x: bx, y: by } = b;
+
+    const dx = bx - ax;
+    const dy = by - ay;
+    const magSqr = dx * dx + dy * dy;
+
+    if (magSqr === 0) return this.distance(p, a); // Line is just a point
+
+    const u = ((px - ax) * dx + (py - ay) * dy) / magSqr;
+
+    let ix, iy; // Closest point on the line
+    if (u < 0) {
+      ix = ax;
+      iy = ay;
+    } else if (u > 1) {
+      ix = bx;
+      iy = by;
+    } else {
+      ix = ax + u * dx;
+      iy = ay + u * dy;
+    }
+    return this.distance(p, { x: ix, y: iy });
+  }
+
+  // Removes corners of a closed polygon that are less than 'epsilon' away
+  // from the line through their two neighbors.
+  private removeStraightCorners(corners: Point[], epsilon: number): Point[] {
+    const result = [...corners];
+    let i = 0;
+    while (result.length > 3 && i < result.length) {
+      const prev = result[(i - 1 + result.length) % result.length];
+      const next = result[(i + 1) % result.length];
+      if (this.perpendicularDistance(result[i], prev, next) < epsilon) {
+        result.splice(i, 1);
+        i = Math.max(0, i - 1); // The previous corner may be straight now
+      } else {
+        i++;
+      }
+    }
+    return result;
+  }
+
+  // Corners of a contour: RDP vertices, without the duplicate closing
+  // vertex and without corners on a straight edge.
+  private findCorners(
+    contour: Point[],
+    epsilon: number,
+    options: DetectorOptions
+  ): Point[] {
+    const vertices = this.simplifyContour(contour, epsilon);
+    let numVertices = vertices.length;
+
+    // RDP on a closed loop often counts the start/end point twice.
+    // If the first and last vertex are the same, we count it as one.
+    if (
+      numVertices > 2 &&
+      this.distance(vertices[0], vertices[vertices.length - 1]) <
+        options.closedLoopMergeDistance
+    ) {
+      numVertices--; // Correct for closed loop
+    }
+
+    // RDP also always keeps the contour's start point, even when it sits
+    // in the middle of a straight edge, so we drop corners that lie on the
+    // line between their neighbors.
+    return this.removeStraightCorners(vertices.slice(0, numVertices), epsilon);
+  }
+
+  // Whether the corner count holds up with a looser and a stricter RDP
+  // tolerance: 1 if it does both times, 0.5 if once, 0 if never.
+  private cornerCountMargin(
+    contour: Point[],
+    count: number,
+    options: DetectorOptions
+  ): number {
+    let margin = 1;
+    for (const scale of CORNER_COUNT_EPSILON_SCALES) {
+      const epsilon = options.simplifyEpsilon * scale;
+      if (this.findCorners(contour, epsilon, options).length !== count) {
+        margin -= 0.5;
+      }
+    }
+    return margin;
+  }
+
+  // The smallest change of direction (in degrees) at any corner. A corner
+  // where the outline barely turns may not be a corner at all.
+  private weakestTurn(corners: Point[]): number {
+    let weakest = 180;
+    for (let i = 0; i < corners.length; i++) {
+      const prev = corners[(i - 1 + corners.length) % corners.length];
+      const p = corners[i];
+      const next = corners[(i + 1) % corners.length];
+      const a = Math.atan2(p.y - prev.y, p.x - prev.x);
+      const b = Math.atan2(next.y - p.y, next.x - p.x);
+      let turn = Math.abs(b - a) * (180 / Math.PI);
+      if (turn > 180) turn = 360 - turn;
+      weakest = Math.min(weakest, turn);
+    }
+    return weakest;
+  }
+
+  //Calculates the total length of a contour.
+   
+  private getPerimeter(contour: Point[]): number {
+    let perimeter = 0;
+    for (let i = 0; i < contour.length; i++) {
+      const p1 = contour[i];
+      const p2 = contour[(i + 1) % contour.length]; // Wrap around to the start
+      perimeter += this.distance(p1, p2);
+    }
+    return perimeter;
+  }
+
+  
+   // Check for an n-point star (which has 2n vertices).
+   // It checks if every other vertex is close to the center and the rest
+   // are far away. Returns the inner/outer radius ratio, or null when the
+   // corners don't alternate.
+   
+  private starRatio(corners: Point[], center: Point): number | null {
+    const n = corners.length / 2;
+    if (!Number.isInteger(n) || n < 3) return null;
+
+    // Get the distance of every vertex from the center
+    const distances = corners.map((v) => this.distance(v, center));
+    const sorted = [...distances].sort((a, b) => a - b);
+
+    // We assume the n smallest are inner points and n largest are outer
+    const innerPoints = sorted.slice(0, n);
+    const outerPoints = sorted.slice(sorted.length - n);
+
+    // Find the average radius of each group
+    const innerRadius = innerPoints.reduce((a, b) => a + b, 0) / n;
+    const outerRadius = outerPoints.reduce((a, b) => a + b, 0) / n;
+
+    // In a star, the inner radius should be much smaller than the outer
+    // radius (the caller checks the ratio we return).
+    const ratio = innerRadius / outerRadius;
+
+    // ...and going around the outline, inner and outer points must take
+    // turns. Otherwise it's some other concave shape.
+    const middle = (innerRadius + outerRadius) / 2;
+    for (let i = 0; i < corners.length; i++) {
+      const isOuter = distances[i] > middle;
+      const nextIsOuter = distances[(i + 1) % corners.length] > middle;
+      if (isOuter === nextIsOuter) return null;
+    }
+    return ratio;
+  }
+
+  // Solidity check: a convex shape fills (almost) all of its convex hull.
+  private isConvex(contour: Point[], minSolidity: number): boolean {
+    const hullArea = polygonArea(convexHull(contour));
+    if (hullArea === 0) return false;
+    return polygonArea(contour) / hullArea >= minSolidity;
+  }
+}
@@ -0,0 +1,305 @@
+// The "Snapshots" panel: saves evaluation runs (evaluation-snapshots.ts),
+// lists the saved ones, and compares a run with a baseline, per metric and
+// per image, with whatever got worse highlighted.
+
+import type { DetectorOptions } from "./detector-options.js";
+import type { OverallResults } from "./evaluation.js";
+import {
+  compareSnapshots,
+  createSnapshot,
+  parseSnapshot,
+  SnapshotStore,
+} from "./evaluation-snapshots.js";
+import type {
+  EvaluationSnapshot,
+  SnapshotComparison,
+  ValueChange,
+} from "./evaluation-snapshots.js";
+import { downloadFile, escapeHtml } from "./ui-utils.js";
+
+// The value of the "compare with" choice for the run not saved yet.
+const LATEST = "latest";
+
+export class SnapshotView {
+  private container: HTMLDivElement;
+  private store: SnapshotStore;
+  private latest: EvaluationSnapshot | null = null; // The last run, unsaved
+  private comparison: SnapshotComparison | null = null;
+
+  constructor(container: HTMLDivElement, store = new SnapshotStore()) {
+    this.container = container;
+    this.store = store;
+    this.render();
+  }
+
+  // Offers a run that just finished for saving, and for comparing with
+  // the saved ones.
+  setLatest(results: OverallResults, detectorOptions: DetectorOptions): void {
+    this.latest = createSnapshot("Latest run", results, detectorOptions);
+    this.comparison = null;
+    this.render();
+  }
+
+  private render(): void {
+    const snapshots = this.store.list();
+    const rows = snapshots
+      .map((snapshot, index) => {
+        const score = snapshot.results.metrics.score as
+          | { percentage: number; grade: string }
+          | undefined;
+        return `
+          <tr>
+            <td>${escapeHtml(snapshot.name)}</td>
+            <td>${new Date(snapshot.createdAt).toLocaleString()}</td>
+            <td>${snapshot.results.testResults.length}</td>
+            <td>${
+              typeof score?.percentage === "number"
+                ? `${score.percentage.toFixed(1)}% (${escapeHtml(
+                    String(score.grade)
+                  )})`
+                : "-"
+            }</td>
+            <td>
+              <button data-export="${index}">Export</button>
+              <button data-delete="${index}">Delete</button>
+            </td>
+          </tr>`;
+      })
+      .join("");
+    const choices = snapshots
+      .map(
+        (snapshot, index) =>
+          `<option value="${index}">${escapeHtml(snapshot.name)}</option>`
+      )
+      .join("");
+
+    this.container.innerHTML = `
+      ${
+        this.latest
+          ? `<div class="snapshot-save">
+              <input type="text" class="snapshot-name"
+                value="${escapeHtml(defaultName())}" />
+              <button data-action="save">Save latest run</button>
+            </div>`
+          : "<p>Run an evaluation to save it as a snapshot.</p>"
+      }
+      ${
+        snapshots.length > 0
+          ? `<table class="evaluation-table">
+              <tr>
+                <th>Snapshot</th><th>Saved</th><th>Images</th><th>Score</th>
+                <th></th>
+              </tr>
+              ${rows}
+            </table>`
+          : ""
+      }
+      <div class="snapshot-compare">
+        <label>Baseline
+          <select class="snapshot-baseline">${choices}</select></label>
+        <label>Compare with
+          <select class="snapshot-current">
+            ${this.latest ? `<option value="${LATEST}">Latest run</option>` : ""}
+            ${choices}
+          </select></label>
+        <button data-action="compare">Compare</button>
+        <label class="snapshot-import">
+          Import <input type="file" accept=".json,application/json" />
+        </label>
+      </div>
+      <div class="snapshot-comparison">
+        ${this.comparison ? renderComparison(this.comparison) : ""}
+      </div>
+    `;
+
+    this.on("[data-action=save]", "click", () => this.saveLatest());
+    this.on("[data-action=compare]", "click", () => this.compare());
+    this.on(".snapshot-import input", "change", (input) =>
+      this.importFile(input as HTMLInputElement)
+    );
+    this.container
+      .querySelectorAll<HTMLButtonElement>("[data-export]")
+      .forEach((button) => {
+        button.addEventListener("click", () => {
+          const snapshot = snapshots[Number(button.dataset.export)];
+          downloadFile(
+            `${snapshot.name}.snapshot.json`,
+            JSON.stringify(snapshot, null, 2),
+            "application/json"
+          );
+        });
+      });
+    this.container
+      .querySelectorAll<HTMLButtonElement>("[data-delete]")
+      .forEach((button) => {
+        button.addEventListener("click", () => {
+          const snapshot = snapshots[Number(button.dataset.delete)];
+          if (!confirm(`Delete the snapshot "${snapshot.name}"?`)) return;
+          this.store.remove(snapshot.name);
+          this.comparison = null;
+          this.render();
+        });
+      });
+  }
+
+  private saveLatest(): void {
+    if (!this.latest) return;
+    const input = this.container.querySelector<HTMLInputElement>(
+      ".snapshot-name"
+    );
+    const name = input?.value.trim() || defaultName();
+    if (this.store.get(name) && !confirm(`Replace the snapshot "${name}"?`)) {
+      return;
+    }
+    try {
+      this.store.save({ ...this.latest, name });
+      this.render();
+    } catch (error) {
+      alert(`Could not save the snapshot (storage full?): ${error}`);
+    }
+  }
+
+  private compare(): void {
+    const snapshots = this.store.list();
+    const baselineChoice = this.container.querySelector<HTMLSelectElement>(
+      ".snapshot-baseline"
+    )?.value;
+    const currentChoice = this.container.querySelector<HTMLSelectElement>(
+      ".snapshot-current"
+    )?.value;
+    const pick = (choice: string | undefined) =>
+      choice === LATEST ? this.latest : snapshots[Number(choice)];
+    const baseline = pick(baselineChoice);
+    const current = pick(currentChoice);
+    if (!baseline || !current) {
+      alert("Save a snapshot first, to compare against.");
+      return;
+    }
+    this.comparison = compareSnapshots(baseline, current);
+    this.render();
+  }
+
+  private async importFile(input: HTMLInputElement): Promise<void> {
+    const file = input.files?.[0];
+    if (!file) return;
+    try {
+      const snapshot = parseSnapshot(await file.text());
+      this.store.save({
+        ...snapshot,
+        name: this.store.uniqueName(snapshot.name),
+      });
+      this.render();
+    } catch (error) {
+      alert(`Could not import ${file.name}: ${error}`);
+    }
+  }
+
+  private on(
+    selector: string,
+    event: string,
+    handler: (element: HTMLElement) => void
+  ): void {
+    const element = this.container.querySelector<HTMLElement>(selector);
+    element?.addEventListener(event, () => handler(element));
+  }
+}
+
+function renderComparison(comparison: SnapshotComparison): string {
+  const { baseline, current, regressionCount } = comparison;
+  const worseSummaries = comparison.metrics
+    .flatMap((metric) => metric.changes)
+    .filter((change) => change.change === "worse").length;
+  const regressed = comparison.images.filter((image) => image.regressed).length;
+  const options = comparison.optionChanges
+    .map(
+      (option) =>
+        `<li>${escapeHtml(option.name)}:
+          ${escapeHtml(JSON.stringify(option.baseline) ?? "-")} →
+          ${escapeHtml(JSON.stringify(option.current) ?? "-")}</li>`
+    )
+    .join("");
+  const metrics = comparison.metrics
+    .map(
+      (metric) => `
+        <h5>${escapeHtml(metric.name)}</h5>
+        ${changeTable(metric.changes)}`
+    )
+    .join("");
+  const changed = comparison.images.filter(
+    (image) => image.changes.length > 0 || image.onlyIn
+  );
+  const images = changed
+    .map(
+      (image) => `
+        <div class="snapshot-image ${image.regressed ? "regressed" : ""}">
+          <h5>${escapeHtml(image.imageName)}${
+            image.onlyIn ? ` (only in the ${image.onlyIn} run)` : ""
+          }</h5>
+          ${image.changes.length > 0 ? changeTable(image.changes) : ""}
+        </div>`
+    )
+    .join("");
+
+  return `
+    <h4>${escapeHtml(current.name)} against ${escapeHtml(baseline.name)}</h4>
+    <p class="${regressionCount > 0 ? "change-worse" : ""}">
+      ${worseSummaries} ${worseSummaries === 1 ? "value" : "values"} got
+      worse in the metric summaries, and ${regressed} of
+      ${comparison.images.length} images regressed.</p>
+    <div class="summary">
+      <h4>Detector options changed:</h4>
+      ${options ? `<ul>${options}</ul>` : "<p>None</p>"}
+    </div>
+    <div class="summary">
+      <h4>Metrics:</h4>
+      ${metrics}
+    </div>
+    <div class="summary">
+      <h4>Images:</h4>
+      <p>${comparison.images.length - changed.length} images unchanged.</p>
+      ${images}
+    </div>
+  `;
+}
+
+function changeTable(changes: ValueChange[]): string {
+  const rows = changes
+    .map(
+      (change) => `
+        <tr class="change-${change.change}">
+          <td>${escapeHtml(change.path)}</td>
+          <td>${formatNumber(change.baseline)}</td>
+          <td>${formatNumber(change.current)}</td>
+          <td>${formatDelta(change)}</td>
+        </tr>`
+    )
+    .join("");
+  return `
+    <table class="evaluation-table snapshot-changes">
+      <tr><th></th><th>Baseline</th><th>Current</th><th>Change</th></tr>
+      ${rows}
+    </table>
+  `;
+}
+
+function formatNumber(value: number | null): string {
+  if (value === null) return "-";
+  return Number.isInteger(value) ? String(value) : value.toFixed(3);
+}
+
+function formatDelta(change: ValueChange): string {
+  if (change.baseline === null || change.current === null) return "";
+  if (change.change === "unchanged") return "";
+  const delta = change.current - change.baseline;
+  return (delta > 0 ? "+" : "") + formatNumber(delta);
+}
+
+// "Run" and the date and time, to the minute.
+function defaultName(): string {
+  const now = new Date();
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return (
+    `Run ${now.getFullYear()}-${pad(now.getMonth() + 1)}-` +
+    `${pad(now.getDate())} ${pad(now.getHours())}:${pad(now.getMinutes())}`
+  );
+}
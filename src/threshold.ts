@@ -0,0 +1,216 @@
+// Threshold selection for the binarize step.
+// All functions work on a flat grayscale buffer (one value per pixel,
+// row by row) plus an 'opaque' mask, because fully transparent pixels are
+// always background and must not skew the statistics.
+
+export type ThresholdMode = "fixed" | "otsu" | "adaptive";
+export type AdaptiveMethod = "mean" | "gaussian";
+export type Polarity = "dark-on-light" | "light-on-dark";
+
+// How an image was binarized. Reported back in DetectionResult.
+export interface ThresholdInfo {
+  mode: ThresholdMode;
+  // The global gray threshold. Null in adaptive mode, where every pixel is
+  // compared against its own local threshold instead.
+  value: number | null;
+  polarity: Polarity;
+}
+
+export interface GrayImage {
+  gray: Float32Array;
+  opaque: Uint8Array; // 1 where alpha > 128
+  width: number;
+  height: number;
+}
+
+// Converts RGBA data to grayscale using the 'luminosity' formula.
+export function toGrayImage(imageData: {
+  data: ArrayLike<number>;
+  width: number;
+  height: number;
+}): GrayImage {
+  const { data, width, height } = imageData;
+  const gray = new Float32Array(width * height);
+  const opaque = new Uint8Array(width * height);
+
+  for (let p = 0; p < width * height; p++) {
+    const i = p * 4; // Each pixel has 4 values (R,G,B,A)
+    gray[p] = 0.21 * data[i] + 0.72 * data[i + 1] + 0.07 * data[i + 2];
+    opaque[p] = data[i + 3] > 128 ? 1 : 0;
+  }
+  return { gray, opaque, width, height };
+}
+
+// Otsu's method: picks the threshold that maximizes the between-class
+// variance of the gray-level histogram. Works well when the histogram
+// has two clear peaks (background and shapes).
+export function otsuThreshold(image: GrayImage): number {
+  const histogram = new Array(256).fill(0);
+  let total = 0;
+  for (let p = 0; p < image.gray.length; p++) {
+    if (!image.opaque[p]) continue;
+    histogram[Math.min(255, Math.round(image.gray[p]))]++;
+    total++;
+  }
+  if (total === 0) return 128;
+
+  let sumAll = 0;
+  for (let t = 0; t < 256; t++) sumAll += t * histogram[t];
+
+  let sumBelow = 0;
+  let countBelow = 0;
+  let bestVariance = -1;
+  let bestThreshold = 128;
+
+  for (let t = 0; t < 256; t++) {
+    countBelow += histogram[t];
+    if (countBelow === 0) continue;
+    const countAbove = total - countBelow;
+    if (countAbove === 0) break;
+
+    sumBelow += t * histogram[t];
+    const meanBelow = sumBelow / countBelow;
+    const meanAbove = (sumAll - sumBelow) / countAbove;
+    const variance = countBelow * countAbove * (meanBelow - meanAbove) ** 2;
+
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      // Pixels with gray <= t form the lower class, so the cut sits just above t.
+      bestThreshold = t + 0.5;
+    }
+  }
+  return bestThreshold;
+}
+
+// Guesses whether the shapes are darker or lighter than the background.
+// The image border is almost always background, so we compare the border's
+// average gray level against the threshold.
+export function detectPolarity(image: GrayImage, threshold: number): Polarity {
+  const { gray, opaque, width, height } = image;
+  let sum = 0;
+  let count = 0;
+
+  const visit = (x: number, y: number) => {
+    const p = y * width + x;
+    if (!opaque[p]) return;
+    sum += gray[p];
+    count++;
+  };
+
+  for (let x = 0; x < width; x++) {
+    visit(x, 0);
+    if (height > 1) visit(x, height - 1);
+  }
+  for (let y = 1; y < height - 1; y++) {
+    visit(0, y);
+    if (width > 1) visit(width - 1, y);
+  }
+
+  // A transparent border gives no hint, so keep the classic assumption.
+  if (count === 0) return "dark-on-light";
+  return sum / count >= threshold ? "dark-on-light" : "light-on-dark";
+}
+
+// Computes a per-pixel threshold from the neighbourhood around each pixel.
+// 'mean' uses a box window (via an integral image), 'gaussian' a Gaussian
+// weighted window. Transparent pixels are left out of both.
+export function localThresholds(
+  image: GrayImage,
+  windowSize: number,
+  method: AdaptiveMethod
+): Float32Array {
+  return method === "gaussian"
+    ? gaussianMean(image, windowSize)
+    : boxMean(image, windowSize);
+}
+
+function boxMean(image: GrayImage, windowSize: number): Float32Array {
+  const { gray, opaque, width, height } = image;
+  const radius = Math.floor(windowSize / 2);
+  // Integral images have one extra row and column of zeros.
+  const stride = width + 1;
+  const sums = new Float64Array(stride * (height + 1));
+  const counts = new Float64Array(stride * (height + 1));
+
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    let rowCount = 0;
+    for (let x = 0; x < width; x++) {
+      const p = y * width + x;
+      if (opaque[p]) {
+        rowSum += gray[p];
+        rowCount++;
+      }
+      const i = (y + 1) * stride + (x + 1);
+      sums[i] = sums[i - stride] + rowSum;
+      counts[i] = counts[i - stride] + rowCount;
+    }
+  }
+
+  const result = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - radius);
+    const y1 = Math.min(height, y + radius + 1);
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.max(0, x - radius);
+      const x1 = Math.min(width, x + radius + 1);
+      const a = y0 * stride + x0;
+      const b = y0 * stride + x1;
+      const c = y1 * stride + x0;
+      const d = y1 * stride + x1;
+      const count = counts[d] - counts[b] - counts[c] + counts[a];
+      const sum = sums[d] - sums[b] - sums[c] + sums[a];
+      result[y * width + x] = count > 0 ? sum / count : 0;
+    }
+  }
+  return result;
+}
+
+function gaussianMean(image: GrayImage, windowSize: number): Float32Array {
+  const { gray, opaque, width, height } = image;
+  const radius = Math.floor(windowSize / 2);
+  // Same sigma rule OpenCV uses for a kernel of this size.
+  const sigma = 0.3 * ((windowSize - 1) * 0.5 - 1) + 0.8;
+  const kernel = new Float32Array(radius * 2 + 1);
+  for (let k = -radius; k <= radius; k++) {
+    kernel[k + radius] = Math.exp(-(k * k) / (2 * sigma * sigma));
+  }
+
+  // Separable blur: rows first, then columns. We blur the masked gray values
+  // and the mask itself, then divide, so transparent pixels carry no weight.
+  const rowValues = new Float32Array(width * height);
+  const rowWeights = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let value = 0;
+      let weight = 0;
+      for (let k = -radius; k <= radius; k++) {
+        const sx = x + k;
+        if (sx < 0 || sx >= width) continue;
+        const p = y * width + sx;
+        if (!opaque[p]) continue;
+        value += kernel[k + radius] * gray[p];
+        weight += kernel[k + radius];
+      }
+      rowValues[y * width + x] = value;
+      rowWeights[y * width + x] = weight;
+    }
+  }
+
+  const result = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let value = 0;
+      let weight = 0;
+      for (let k = -radius; k <= radius; k++) {
+        const sy = y + k;
+        if (sy < 0 || sy >= height) continue;
+        const p = sy * width + x;
+        value += kernel[k + radius] * rowValues[p];
+        weight += kernel[k + radius] * rowWeights[p];
+      }
+      result[y * width + x] = weight > 0 ? value / weight : 0;
+    }
+  }
+  return result;
+}
@@ -0,0 +1,208 @@
+// Follows shapes from frame to frame in a video or image sequence.
+// Each frame's detections are matched to the tracks of the frames before:
+// a track predicts where its shape is now (from its last position and
+// velocity), and a detection joins the track whose prediction its bounding
+// box overlaps most, or whose predicted center it is closest to. Detections
+// that match no track start a new one. Every detection gets the ID of its
+// track as 'trackId', so the same physical part keeps one ID while it moves.
+
+import { boxOverlap } from "./geometry.js";
+import type { PixelBox } from "./geometry.js";
+import type { DetectedShape, Point } from "./shape-detector.js";
+
+export interface TrackerOptions {
+  /** How far (in pixels) a center may be from its predicted position. Default: 50. */
+  maxDistance: number;
+  /** Boxes overlapping at least this much (IoU) always match. Default: 0.3. */
+  minOverlap: number;
+  /** Frames a track may go undetected before it ends. Default: 2. */
+  maxMissedFrames: number;
+}
+
+export const DEFAULT_TRACKER_OPTIONS: Readonly<TrackerOptions> =
+  Object.freeze({
+    maxDistance: 50,
+    minOverlap: 0.3,
+    maxMissedFrames: 2,
+  });
+
+export interface TrackStats {
+  trackId: number;
+  type: DetectedShape["type"]; // As last detected
+  firstFrame: number;
+  lastFrame: number;
+  frameCount: number; // Frames it was detected in
+  lifetime: number; // Seconds from the first to the last detection
+  velocity: Point; // Pixels per second, smoothed over the last frames
+  speed: number; // Length of 'velocity'
+  distance: number; // Pixels traveled
+  active: boolean; // False once it has gone undetected for too long
+}
+
+// How much of a new velocity measurement goes into the smoothed velocity.
+// Detected centers jitter by a pixel or so, which at 30 frames per second
+// would otherwise show up as tens of pixels per second.
+const VELOCITY_SMOOTHING = 0.5;
+
+interface Track {
+  id: number;
+  shape: DetectedShape; // Last detection
+  firstFrame: number;
+  lastFrame: number;
+  firstTime: number;
+  lastTime: number;
+  frameCount: number;
+  velocity: Point;
+  distance: number;
+  missed: number; // Frames in a row without a detection
+}
+
+export class ShapeTracker {
+  private options: TrackerOptions;
+  private tracks: Track[] = [];
+  private ended: Track[] = [];
+  private nextId = 1;
+  private frame = -1;
+
+  constructor(options?: Partial<TrackerOptions>) {
+    this.options = { ...DEFAULT_TRACKER_OPTIONS, ...options };
+  }
+
+  /**
+   * Adds the detections of the next frame and returns them with their
+   * 'trackId' set. 'time' is the frame's time in seconds (video time, or
+   * frame number / frame rate), used for velocities.
+   */
+  update(shapes: DetectedShape[], time: number): DetectedShape[] {
+    this.frame++;
+    const { maxDistance, minOverlap } = this.options;
+
+    // Every track/detection pair that may match, best first. Lower cost is
+    // better: no box overlap and a center at 'maxDistance' costs 2.
+    const candidates: { track: Track; shape: number; cost: number }[] = [];
+    for (const track of this.tracks) {
+      const predicted = this.predictedBox(track, time);
+      const center = {
+        x: predicted.x + predicted.width / 2,
+        y: predicted.y + predicted.height / 2,
+      };
+      shapes.forEach((shape, index) => {
+        const overlap = boxOverlap(predicted, shape.boundingBox);
+        const box = shape.boundingBox;
+        const distance = Math.hypot(
+          box.x + box.width / 2 - center.x,
+          box.y + box.height / 2 - center.y
+        );
+        if (overlap < minOverlap && distance > maxDistance) return;
+        candidates.push({
+          track,
+          shape: index,
+          cost: 1 - overlap + Math.min(distance / maxDistance, 1),
+        });
+      });
+    }
+    candidates.sort((a, b) => a.cost - b.cost);
+
+    // Greedy assignment: take the best pair left, until none are.
+    const trackOf = new Map<number, Track>();
+    const matched = new Set<Track>();
+    for (const { track, shape } of candidates) {
+      if (matched.has(track) || trackOf.has(shape)) continue;
+      matched.add(track);
+      trackOf.set(shape, track);
+    }
+
+    for (const track of this.tracks) {
+      if (!matched.has(track)) track.missed++;
+    }
+    const tracked = shapes.map((shape, index) => {
+      let track = trackOf.get(index);
+      if (track) {
+        this.extend(track, shape, time);
+      } else {
+        track = this.start(shape, time);
+        this.tracks.push(track);
+      }
+      return { ...shape, trackId: track.id };
+    });
+
+    // Tracks that stay lost end, and are only kept for their stats.
+    const lost = (track: Track) => track.missed > this.options.maxMissedFrames;
+    this.ended.push(...this.tracks.filter(lost));
+    this.tracks = this.tracks.filter((track) => !lost(track));
+    return tracked;
+  }
+
+  // Statistics of every track so far, in the order they started.
+  stats(): TrackStats[] {
+    const all = [...this.ended, ...this.tracks].sort((a, b) => a.id - b.id);
+    return all.map((track) => ({
+      trackId: track.id,
+      type: track.shape.type,
+      firstFrame: track.firstFrame,
+      lastFrame: track.lastFrame,
+      frameCount: track.frameCount,
+      lifetime: track.lastTime - track.firstTime,
+      velocity: track.velocity,
+      speed: Math.hypot(track.velocity.x, track.velocity.y),
+      distance: track.distance,
+      active: this.tracks.includes(track),
+    }));
+  }
+
+  // Forgets all tracks, for a new video. IDs start from 1 again.
+  reset(): void {
+    this.tracks = [];
+    this.ended = [];
+    this.nextId = 1;
+    this.frame = -1;
+  }
+
+  private start(shape: DetectedShape, time: number): Track {
+    return {
+      id: this.nextId++,
+      shape,
+      firstFrame: this.frame,
+      lastFrame: this.frame,
+      firstTime: time,
+      lastTime: time,
+      frameCount: 1,
+      velocity: { x: 0, y: 0 },
+      distance: 0,
+      missed: 0,
+    };
+  }
+
+  private extend(track: Track, shape: DetectedShape, time: number): void {
+    const dx = shape.center.x - track.shape.center.x;
+    const dy = shape.center.y - track.shape.center.y;
+    const elapsed = time - track.lastTime;
+    if (elapsed > 0) {
+      const measured = { x: dx / elapsed, y: dy / elapsed };
+      // The first measurement has nothing to be smoothed with.
+      const weight = track.frameCount === 1 ? 1 : VELOCITY_SMOOTHING;
+      track.velocity = {
+        x: track.velocity.x + weight * (measured.x - track.velocity.x),
+        y: track.velocity.y + weight * (measured.y - track.velocity.y),
+      };
+    }
+    track.distance += Math.hypot(dx, dy);
+    track.shape = shape;
+    track.lastFrame = this.frame;
+    track.lastTime = time;
+    track.frameCount++;
+    track.missed = 0;
+  }
+
+  // Where the track's bounding box should be at 'time', if it kept moving
+  // at its velocity.
+  private predictedBox(track: Track, time: number): PixelBox {
+    const elapsed = time - track.lastTime;
+    const box = track.shape.boundingBox;
+    return {
+      ...box,
+      x: box.x + track.velocity.x * elapsed,
+      y: box.y + track.velocity.y * elapsed,
+    };
+  }
+}
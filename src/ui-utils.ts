@@ -98,3 +98,26 @@ export class ModalManager {
     document.addEventListener("keydown", handleEscape);
   }
 }
+
+// Saves text as a file, through a temporary download link.
+export function downloadFile(
+  fileName: string,
+  content: string,
+  mimeType: string
+): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // The download has started once click() returns.
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+// Text made safe to put in HTML, in element content or a quoted attribute.
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/"/g, "&quot;")
+    .replace(/</g, "&lt;");
+}